@@ -1,80 +1,535 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import ChatInterface from './components/ChatInterface';
 import AdOverlay from './components/AdOverlay';
-import { AppMode, ChatMessage, GenerationConfig } from './types';
-import { refinePrompt, generateImage, generateWithImages } from './services/geminiService';
+import MemoryPanel from './components/MemoryPanel';
+import Gallery from './components/Gallery';
+import BrandKitManager from './components/BrandKitManager';
+import ModeEditor from './components/ModeEditor';
+import { AppMode, ArchivedSession, BrandKit, ChatMessage, GenerationConfig, GenerationJob, GenerationProvenance, GenerationSettings, ImageRecipe, ModeDefinition, ModeId, ModeStatus, Project, QueueStatus, RefineContext, RequestOptions, StylePreset, TextOverlay } from './types';
 import { memoryService } from './services/memoryService';
+import { getImageProvider } from './services/imageProvider';
+import { removeBackground } from './services/backgroundRemoval';
+import { buildInpaintPrompt, compositeInpaint } from './services/inpainting';
+import { closestAspectRatio, downscaleImage, loadImage } from './services/imageUtils';
+import { extractPalette } from './services/colorPalette';
+import { projectService, createId } from './services/projectService';
+import { brandKitService } from './services/brandKitService';
+import { ASPECT_RATIOS, modeHasTool, modeRegistry } from './services/modeRegistry';
+import { BUILT_IN_STYLES, STYLE_THUMBNAIL_MAX_SIDE, stylePresetService } from './services/styleService';
+import { GenerationError, describeGenerationError } from './services/errors';
+import { lastAssistantImage, looksLikeEdit, summarizeTurns, turnInputs } from './services/conversationContext';
+import { canRemix, findInputRequest, trackModelUsage } from './services/provenance';
+
+// Live handle for a job: how to stop it and which pending message to drop if it's cancelled
+interface JobHandle {
+  job: GenerationJob;
+  controller: AbortController;
+  userMessage?: ChatMessage;
+}
+
+// Upper bound for variations per prompt, and how many run at once to stay within quota
+const MAX_VARIATIONS = 4;
+const MAX_PARALLEL_GENERATIONS = 2;
+// Refinements offered when prompt review is set to "choose"
+const PROMPT_ALTERNATIVES = 3;
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let cursor = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+  return results;
+}
+
+// Cutout output gets its background removed afterwards, so brand colors and logos would only get in the way
+function brandKitForMode(kit: BrandKit | null, mode: ModeId): BrandKit | undefined {
+  return kit && !modeHasTool(mode, 'cutout') ? kit : undefined;
+}
+
+function settingsFromConfig(config: GenerationConfig, brandKitId?: string): GenerationSettings {
+  return {
+    aspectRatio: config.aspectRatio,
+    highQuality: config.highQuality,
+    variations: Math.min(Math.max(config.variations || 1, 1), MAX_VARIATIONS),
+    style: config.style,
+    brandKitId
+  };
+}
+
+// Recipes come from files anyone can edit: keep only settings this app could have written
+function settingsFromRecipe(recipe: ImageRecipe): Partial<GenerationSettings> {
+  const raw: any = recipe.settings;
+  if (!raw || typeof raw !== 'object') return {};
+  const settings: Partial<GenerationSettings> = {};
+  if (ASPECT_RATIOS.includes(raw.aspectRatio)) settings.aspectRatio = raw.aspectRatio;
+  if (typeof raw.highQuality === 'boolean') settings.highQuality = raw.highQuality;
+  if (typeof raw.variations === 'number' && Number.isFinite(raw.variations)) {
+    settings.variations = Math.min(Math.max(Math.round(raw.variations), 1), MAX_VARIATIONS);
+  }
+  if (typeof raw.style === 'string') settings.style = raw.style;
+  return settings;
+}
+
+// Label for the request bubble a remix adds, e.g. "🔁 Remix · 16:9"
+function describeRemix(changes: Partial<GenerationSettings>, styleName?: string): string {
+  const parts: string[] = [];
+  if (changes.aspectRatio) parts.push(changes.aspectRatio);
+  if (changes.highQuality !== undefined) parts.push(changes.highQuality ? 'Pro' : 'Fast');
+  if (changes.variations) parts.push(changes.variations === 1 ? '1 image' : `${changes.variations} variations`);
+  if ('style' in changes) parts.push(styleName ? `${styleName} style` : 'no style');
+  return ['🔁 Remix', ...parts].join(' · ');
+}
+
+// A project without any chats for the mode, or null when it had none to drop
+function withoutMode(project: Project, modeId: ModeId): Project | null {
+  const { [modeId]: removed, ...histories } = project.histories;
+  const archives = project.archives.filter(a => a.mode !== modeId);
+  if (!removed && archives.length === project.archives.length) return null;
+  return { ...project, histories, archives, updatedAt: Date.now() };
+}
 
 function App() {
   // App State
-  const [currentMode, setCurrentMode] = useState<AppMode>(AppMode.GENERAL);
+  const [currentMode, setCurrentMode] = useState<ModeId>(AppMode.GENERAL);
   const [histories, setHistories] = useState<Record<string, ChatMessage[]>>({});
-  const [generatingMode, setGeneratingMode] = useState<AppMode | null>(null);
+  const [archives, setArchives] = useState<ArchivedSession[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [finishedModes, setFinishedModes] = useState<Partial<Record<ModeId, ModeStatus>>>({});
+  // Jobs finish inside stale closures; this is the mode actually on screen
+  const currentModeRef = useRef<ModeId>(currentMode);
+  const jobHandles = useRef<Map<string, JobHandle>>(new Map());
   const [showAdOverlay, setShowAdOverlay] = useState(false);
+  const [showMemoryPanel, setShowMemoryPanel] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [activeBrandKitId, setActiveBrandKitId] = useState<string | null>(null);
+  const [showBrandKits, setShowBrandKits] = useState(false);
+  const [modes, setModes] = useState<ModeDefinition[]>(() => modeRegistry.list());
+  // Sending waits for the saved projects; the load would replace anything sent before it
+  const [projectsLoaded, setProjectsLoaded] = useState(false);
+  const [showModeEditor, setShowModeEditor] = useState(false);
+  const [customStyles, setCustomStyles] = useState<StylePreset[]>([]);
+  const [restoredPrompt, setRestoredPrompt] = useState<{ text: string; source: string } | null>(null);
+  // Settings from a restored recipe that switched modes; applied instead of the new mode's defaults
+  const restoredSettings = useRef<Partial<GenerationConfig> | null>(null);
   
   const [config, setConfig] = useState<GenerationConfig>({
     aspectRatio: '1:1',
-    highQuality: false
+    highQuality: false,
+    variations: 1,
+    promptReview: 'off'
   });
   
   const currentMessages = histories[currentMode] || [];
-  const isGenerating = generatingMode === currentMode;
+  const isGenerating = jobs.some(j => j.mode === currentMode);
+  const isBusy = jobs.length > 0;
+  const activeProject = projects.find(p => p.id === activeProjectId) || null;
+  const currentArchives = archives.filter(a => a.mode === currentMode);
+  const activeBrandKit = brandKits.find(k => k.id === activeBrandKitId) || null;
+  const styles = [...BUILT_IN_STYLES, ...customStyles];
+
+  // Running jobs win; otherwise show unseen results from modes you aren't looking at
+  const modeStatuses: Partial<Record<ModeId, ModeStatus>> = { ...finishedModes };
+  delete modeStatuses[currentMode];
+  jobs.forEach(j => { modeStatuses[j.mode] = 'running'; });
 
+  // Load saved projects (or bootstrap the first one) on startup
   useEffect(() => {
-    let newRatio = '1:1';
-    let newQuality = false;
-
-    // Smart Defaults based on App Mode
-    switch (currentMode) {
-      case AppMode.THUMBNAIL:
-      case AppMode.BANNER:
-        newRatio = '16:9';
-        newQuality = true; 
-        break;
-      case AppMode.POSTER:
-        newRatio = '3:4';
-        newQuality = true;
-        break;
-      case AppMode.LOGO:
-      case AppMode.AVATAR:
-        newRatio = '1:1';
-        newQuality = true; 
-        break;
-      case AppMode.BG_REMOVER:
-        newRatio = '1:1'; 
-        newQuality = false; 
-        break;
-      case AppMode.GENERAL:
-      default:
-        newRatio = '1:1';
-        newQuality = false;
-        break;
-    }
+    let cancelled = false;
+
+    projectService.list().then(stored => {
+      if (cancelled) return;
+
+      let list = stored;
+      if (list.length === 0) {
+        const first = projectService.create('My First Project');
+        projectService.save(first);
+        list = [first];
+      }
+
+      const savedId = projectService.getActiveId();
+      const active = list.find(p => p.id === savedId) || list[0];
+
+      setProjects(list);
+      setActiveProjectId(active.id);
+      setHistories(active.histories);
+      setArchives(active.archives);
+      setProjectsLoaded(true);
+    });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Brand kits are shared across projects
+  useEffect(() => {
+    let cancelled = false;
+    brandKitService.list().then(kits => {
+      if (cancelled) return;
+      setBrandKits(kits);
+      const savedId = brandKitService.getActiveId();
+      if (kits.some(k => k.id === savedId)) setActiveBrandKitId(savedId);
+    });
+    return () => { cancelled = true; };
+  }, []);
 
+  // Custom styles are shared across projects too
+  useEffect(() => {
+    let cancelled = false;
+    stylePresetService.list().then(stored => {
+      if (!cancelled) setCustomStyles(stored);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Persist the active project whenever its chats change (debounced)
+  useEffect(() => {
+    if (!activeProject) return;
+    if (activeProject.histories === histories && activeProject.archives === archives) return;
+
+    const timer = setTimeout(() => {
+      const updated: Project = { ...activeProject, histories, archives, updatedAt: Date.now() };
+      projectService.save(updated);
+      setProjects(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [activeProject, histories, archives]);
+
+  // Smart defaults from the mode registry, unless a restored recipe brought its own settings
+  useEffect(() => {
+    const mode = modeRegistry.get(currentMode);
+    const restored = restoredSettings.current;
+    restoredSettings.current = null;
     setConfig(prev => ({
       ...prev,
-      aspectRatio: newRatio as any,
-      highQuality: newQuality
+      aspectRatio: mode.aspectRatio,
+      highQuality: mode.highQuality,
+      ...restored
     }));
   }, [currentMode]);
 
-  const handleModeChange = useCallback((mode: AppMode) => {
+  // Opening a mode marks its result as seen, however the switch happened
+  useEffect(() => {
+    currentModeRef.current = currentMode;
+    setFinishedModes(prev => {
+        if (!(currentMode in prev)) return prev;
+        const { [currentMode]: _seen, ...rest } = prev;
+        return rest;
+    });
+  }, [currentMode]);
+
+  const handleModeChange = useCallback((mode: ModeId) => {
     setCurrentMode(mode);
     setShowAdOverlay(true);
   }, []);
 
+  // ==========================================================================
+  //  GENERATION JOBS
+  // ==========================================================================
+  const startJob = useCallback((mode: ModeId, userMessage?: ChatMessage) => {
+    const handle: JobHandle = {
+        job: { id: createId(), mode, startedAt: Date.now() },
+        controller: new AbortController(),
+        userMessage
+    };
+    jobHandles.current.set(handle.job.id, handle);
+    setJobs(prev => [...prev, handle.job]);
+
+    const jobId = handle.job.id;
+    const signal = handle.controller.signal;
+    // Queue progress from the rate limiter is shown in the pending bubble
+    const onStatus = (queue: QueueStatus) => {
+        if (signal.aborted) return;
+        setJobs(prev => prev.map(j => (j.id === jobId ? { ...j, queue } : j)));
+    };
+    const options: RequestOptions = { signal, onStatus };
+    return { jobId, signal, options };
+  }, []);
+
+  // Safe to call twice: a job cancelled mid-flight is already gone when its handler finishes
+  const finishJob = useCallback((jobId: string, status: ModeStatus) => {
+    const handle = jobHandles.current.get(jobId);
+    if (!handle) return;
+    jobHandles.current.delete(jobId);
+    setJobs(prev => prev.filter(j => j.id !== jobId));
+    // A result that lands in the open mode has already been seen
+    if (handle.job.mode === currentModeRef.current) return;
+    setFinishedModes(prev => ({ ...prev, [handle.job.mode]: status }));
+  }, []);
+
+  // Abort the mode's running job and drop the message it was answering
+  const cancelJobForMode = useCallback((mode: ModeId) => {
+    const handle = [...jobHandles.current.values()].find((h: JobHandle) => h.job.mode === mode);
+    if (!handle) return undefined;
+
+    handle.controller.abort();
+    jobHandles.current.delete(handle.job.id);
+    setJobs(prev => prev.filter(j => j.id !== handle.job.id));
+    if (handle.userMessage) {
+        setHistories(prev => ({
+            ...prev,
+            [mode]: (prev[mode] || []).filter(m => m !== handle.userMessage)
+        }));
+    }
+    return handle;
+  }, []);
+
+  const handleCancelGeneration = useCallback(() => {
+    cancelJobForMode(currentMode);
+  }, [currentMode, cancelJobForMode]);
+
   const handleReset = useCallback(() => {
+    // A pending request is abandoned rather than archived half-answered
+    const cancelled = cancelJobForMode(currentMode);
+    const messages = (histories[currentMode] || []).filter(m => m !== cancelled?.userMessage);
+    if (messages.length > 0) {
+        setArchives(prev => [{
+            id: createId(),
+            mode: currentMode,
+            messages,
+            archivedAt: Date.now()
+        }, ...prev]);
+    }
     setHistories(prev => ({
         ...prev,
         [currentMode]: []
     }));
-    if (generatingMode === currentMode) {
-        setGeneratingMode(null);
+  }, [currentMode, histories, cancelJobForMode]);
+
+  const handleRestoreSession = useCallback((sessionId: string) => {
+    const session = archives.find(a => a.id === sessionId);
+    if (!session || jobs.some(j => j.mode === session.mode)) return;
+
+    // Swap: the conversation currently open in that mode goes back to the archive
+    const current = histories[session.mode] || [];
+    setArchives(prev => {
+        const remaining = prev.filter(a => a.id !== sessionId);
+        return current.length > 0
+            ? [{ id: createId(), mode: session.mode, messages: current, archivedAt: Date.now() }, ...remaining]
+            : remaining;
+    });
+    setHistories(prev => ({
+        ...prev,
+        [session.mode]: session.messages
+    }));
+  }, [archives, histories, jobs]);
+
+  const handleDeleteSession = useCallback((sessionId: string) => {
+    setArchives(prev => prev.filter(a => a.id !== sessionId));
+  }, []);
+
+  // Write pending changes of the active project before leaving it
+  const flushActiveProject = useCallback(() => {
+    if (!activeProject) return;
+    const updated: Project = { ...activeProject, histories, archives, updatedAt: Date.now() };
+    projectService.save(updated);
+    setProjects(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+  }, [activeProject, histories, archives]);
+
+  const openProject = useCallback((project: Project) => {
+    setActiveProjectId(project.id);
+    setHistories(project.histories);
+    setArchives(project.archives);
+    projectService.setActiveId(project.id);
+  }, []);
+
+  const handleSelectProject = useCallback((projectId: string) => {
+    if (isBusy || projectId === activeProjectId) return;
+    const target = projects.find(p => p.id === projectId);
+    if (!target) return;
+
+    flushActiveProject();
+    openProject(target);
+  }, [isBusy, activeProjectId, projects, flushActiveProject, openProject]);
+
+  const handleCreateProject = useCallback((name: string) => {
+    if (isBusy) return;
+    const project = projectService.create(name);
+
+    flushActiveProject();
+    projectService.save(project);
+    setProjects(prev => [project, ...prev]);
+    openProject(project);
+  }, [isBusy, flushActiveProject, openProject]);
+
+  const handleRenameProject = useCallback((projectId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setProjects(prev => prev.map(p => {
+        if (p.id !== projectId) return p;
+        // The active project's stored chats may lag behind state; save the live ones
+        const renamed = p.id === activeProjectId
+            ? { ...p, name: trimmed, histories, archives, updatedAt: Date.now() }
+            : { ...p, name: trimmed, updatedAt: Date.now() };
+        projectService.save(renamed);
+        return renamed;
+    }));
+  }, [activeProjectId, histories, archives]);
+
+  const handleDeleteProject = useCallback((projectId: string) => {
+    if (isBusy) return;
+    projectService.remove(projectId);
+
+    const remaining = projects.filter(p => p.id !== projectId);
+    if (projectId !== activeProjectId) {
+        setProjects(remaining);
+        return;
     }
-  }, [currentMode, generatingMode]);
 
-  const handleLikeMessage = useCallback((index: number) => {
+    if (remaining.length > 0) {
+        setProjects(remaining);
+        openProject(remaining[0]);
+    } else {
+        const fresh = projectService.create('Untitled Project');
+        projectService.save(fresh);
+        setProjects([fresh]);
+        openProject(fresh);
+    }
+  }, [isBusy, projects, activeProjectId, openProject]);
+
+  const handleSelectBrandKit = useCallback((id: string | null) => {
+    setActiveBrandKitId(id);
+    brandKitService.setActiveId(id);
+  }, []);
+
+  const handleSaveBrandKit = useCallback((kit: BrandKit) => {
+    brandKitService.save(kit);
+    setBrandKits(prev => [...prev.filter(k => k.id !== kit.id), kit].sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
+  const handleDeleteBrandKit = useCallback((id: string) => {
+    brandKitService.remove(id);
+    setBrandKits(prev => prev.filter(k => k.id !== id));
+    if (id === activeBrandKitId) handleSelectBrandKit(null);
+  }, [activeBrandKitId, handleSelectBrandKit]);
+
+  const handleSaveStyle = useCallback((style: StylePreset) => {
+    stylePresetService.save(style);
+    setCustomStyles(prev => {
+      const saved = { ...style, custom: true };
+      return prev.some(s => s.id === style.id) ? prev.map(s => (s.id === style.id ? saved : s)) : [...prev, saved];
+    });
+  }, []);
+
+  const handleDeleteStyle = useCallback((id: string) => {
+    stylePresetService.remove(id);
+    setCustomStyles(prev => prev.filter(s => s.id !== id));
+    setConfig(prev => (prev.style === id ? { ...prev, style: undefined } : prev));
+  }, []);
+
+  const findStyle = useCallback(
+    (id?: string) => (id ? [...BUILT_IN_STYLES, ...customStyles].find(s => s.id === id) : undefined),
+    [customStyles]
+  );
+
+  // Reads the look of a reference image into a saved custom style and selects it
+  const handleAnalyzeStyle = useCallback(async (image: string): Promise<StylePreset> => {
+    const [analysis, palette, thumbnail] = await Promise.all([
+      getImageProvider().analyzeStyle(image),
+      extractPalette(image),
+      downscaleImage(image, STYLE_THUMBNAIL_MAX_SIDE)
+    ]);
+    const style = stylePresetService.fromAnalysis(analysis, palette, thumbnail);
+    handleSaveStyle(style);
+    setConfig(prev => ({ ...prev, style: style.id }));
+    return style;
+  }, [handleSaveStyle]);
+
+  // A dropped export brings back its mode, settings and prompt; unknown modes and styles are skipped
+  const handleRestoreRecipe = useCallback((recipe: ImageRecipe, source: string) => {
+    // Anything missing or invalid keeps its current value
+    const { style, ...validSettings } = settingsFromRecipe(recipe);
+    const restoredStyle = findStyle(style);
+    const settings: Partial<GenerationConfig> = restoredStyle ? { ...validSettings, style: restoredStyle.id } : validSettings;
+    const targetMode = modes.some(m => m.id === recipe.mode) ? recipe.mode : currentMode;
+
+    if (targetMode !== currentMode) {
+      restoredSettings.current = settings;
+      handleModeChange(targetMode);
+    } else {
+      setConfig(prev => ({ ...prev, ...settings }));
+    }
+    setRestoredPrompt({ text: recipe.originalPrompt || recipe.finalPrompt || '', source });
+  }, [modes, currentMode, findStyle, handleModeChange]);
+
+  const handleSaveMode = useCallback((mode: ModeDefinition) => {
+    modeRegistry.saveCustom(mode);
+    setModes(modeRegistry.list());
+  }, []);
+
+  // A deleted mode takes its chats with it; there'd be no way to open them again
+  const handleDeleteMode = useCallback((modeId: ModeId) => {
+    if (jobs.some(j => j.mode === modeId)) return;
+    modeRegistry.removeCustom(modeId);
+    memoryService.clear(modeId, true);
+    setModes(modeRegistry.list());
+    setHistories(prev => {
+        const { [modeId]: _removed, ...rest } = prev;
+        return rest;
+    });
+    setArchives(prev => prev.filter(a => a.mode !== modeId));
+    // The active project is saved by the sync effect; the others are purged here
+    const purged = projects
+        .filter(p => p.id !== activeProjectId)
+        .map(p => withoutMode(p, modeId))
+        .filter((p): p is Project => p !== null);
+    purged.forEach(p => projectService.save(p));
+    setProjects(prev => prev.map(p => purged.find(q => q.id === p.id) || p));
+    if (currentMode === modeId) setCurrentMode(AppMode.GENERAL);
+  }, [jobs, currentMode, projects, activeProjectId]);
+
+  const handleSelectVariant = useCallback((index: number, variantIndex: number) => {
+    const activeMode = currentMode;
+    setHistories(prev => {
+        const messages = prev[activeMode] || [];
+        const message = messages[index];
+        if (!message?.images || variantIndex >= message.images.length) return prev;
+
+        const newMessages = [...messages];
+        newMessages[index] = {
+            ...message,
+            metadata: { ...message.metadata, selectedIndex: variantIndex }
+        };
+        return { ...prev, [activeMode]: newMessages };
+    });
+  }, [currentMode]);
+
+  const handleUpdateImage = useCallback((index: number, variantIndex: number, url: string) => {
+    const activeMode = currentMode;
+    setHistories(prev => {
+        const messages = prev[activeMode] || [];
+        const message = messages[index];
+        if (!message?.images || variantIndex >= message.images.length) return prev;
+
+        const newMessages = [...messages];
+        newMessages[index] = {
+            ...message,
+            images: message.images.map((img, i) => (i === variantIndex ? url : img))
+        };
+        return { ...prev, [activeMode]: newMessages };
+    });
+  }, [currentMode]);
+
+  const handleLikeMessage = useCallback((index: number, variantIndex: number) => {
     const activeMode = currentMode;
     const messages = histories[activeMode] || [];
     const message = messages[index];
@@ -88,122 +543,536 @@ function App() {
         memoryService.learn(activeMode, userInput, message.metadata.finalPrompt);
     }
 
-    const newMessages = [...messages];
-    newMessages[index] = {
-        ...message,
-        metadata: {
-            ...message.metadata,
-            liked: true
-        }
-    };
-    
+    // Background jobs may have appended turns since this render, so patch the latest list
+    setHistories(prev => {
+        const latest = prev[activeMode] || [];
+        const current = latest[index];
+        if (current?.role !== 'assistant') return prev;
+
+        const newMessages = [...latest];
+        newMessages[index] = {
+            ...current,
+            metadata: {
+                ...current.metadata,
+                liked: true,
+                likedIndex: variantIndex,
+                selectedIndex: variantIndex
+            }
+        };
+        return { ...prev, [activeMode]: newMessages };
+    });
+  }, [currentMode, histories]);
+
+  const handleDislikeMessage = useCallback((index: number, reasons: string[]) => {
+    const activeMode = currentMode;
+    const messages = histories[activeMode] || [];
+    const message = messages[index];
+
+    if (!message || message.role !== 'assistant' || !message.metadata?.finalPrompt) return;
+
+    const userMessage = messages[index - 1];
+    const userInput = userMessage?.role === 'user' ? userMessage.content : "";
+
+    if (userInput) {
+        memoryService.learnDislike(activeMode, userInput, message.metadata.finalPrompt, reasons);
+    }
+
+    setHistories(prev => {
+        const latest = prev[activeMode] || [];
+        const current = latest[index];
+        if (current?.role !== 'assistant') return prev;
+
+        const newMessages = [...latest];
+        newMessages[index] = {
+            ...current,
+            metadata: {
+                ...current.metadata,
+                disliked: true,
+                dislikeReasons: reasons
+            }
+        };
+        return { ...prev, [activeMode]: newMessages };
+    });
+  }, [currentMode, histories]);
+
+  // Runs image generation for an already-refined prompt and returns the assistant turn
+  const generateTurn = useCallback(async (
+    activeMode: ModeId,
+    text: string,
+    request: ChatMessage | undefined, // User turn whose uploads or edit base are the references
+    finalPrompt: string,
+    requestOptions: RequestOptions,
+    settings: GenerationSettings = settingsFromConfig(config, activeBrandKit?.id)
+  ): Promise<ChatMessage> => {
+    const provider = getImageProvider();
+    const { options, usage } = trackModelUsage(requestOptions);
+    const startedAt = Date.now();
+    const imageInputs = turnInputs(request);
+    try {
+      // The brand logo rides along as the last reference image
+      const brandKit = brandKitForMode(brandKits.find(k => k.id === settings.brandKitId) || null, activeMode);
+      const references = brandKit?.logo ? [...(imageInputs || []), brandKit.logo] : imageInputs;
+      const hasImages = !!references && references.length > 0;
+
+      // Generate Image(s) (Image Generation)
+      const results = await mapWithConcurrency(
+        Array.from({ length: settings.variations }, (_, i) => i),
+        MAX_PARALLEL_GENERATIONS,
+        (variant) => hasImages
+          ? provider.generateWithImages(references, finalPrompt, settings.aspectRatio, settings.highQuality, variant, options)
+          : provider.generateImage(finalPrompt, settings.aspectRatio, settings.highQuality, variant, options)
+      );
+
+      // Keep whatever succeeded; only fail the turn if every variation failed
+      const resultImages = results
+        .filter((r): r is PromiseFulfilledResult<string | null> => r.status === 'fulfilled')
+        .map(r => r.value)
+        .filter((url): url is string => !!url);
+
+      if (resultImages.length === 0) {
+        const firstFailure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        throw firstFailure ? firstFailure.reason : new GenerationError('empty-response', "No image data returned from API.");
+      }
+
+      // Cutout modes (Background Remover): turn the isolated solid background into real transparency
+      let originalImages: string[] | undefined;
+      let finalImages = resultImages;
+      if (modeHasTool(activeMode, 'cutout')) {
+        originalImages = resultImages;
+        finalImages = await Promise.all(resultImages.map(url =>
+          removeBackground(url).catch(e => {
+            console.warn("Background matting failed, keeping model output.", e);
+            return url;
+          })
+        ));
+      }
+
+      const provenance: GenerationProvenance = {
+          ...settings,
+          operation: 'generate',
+          provider: provider.id,
+          ...usage,
+          styleName: findStyle(settings.style)?.name,
+          brandKit: brandKit?.name,
+          inputsFrom: imageInputs?.length ? request?.timestamp : undefined,
+          latencyMs: Date.now() - startedAt,
+          createdAt: Date.now()
+      };
+
+      return {
+          role: 'assistant',
+          content: finalImages.length > 1
+              ? `Here are ${finalImages.length} ${modeRegistry.get(activeMode).name} variations. Pick your favorite!`
+              : `Here is your ${modeRegistry.get(activeMode).name} design!`,
+          images: finalImages, 
+          timestamp: Date.now(),
+          metadata: {
+              originalPrompt: text,
+              finalPrompt: finalPrompt,
+              liked: false,
+              selectedIndex: 0,
+              originalImages,
+              provenance
+          }
+      };
+    } catch (error: any) {
+      console.error(`${provider.label} Error:`, error);
+      const failure = describeGenerationError(error);
+      return {
+          role: 'assistant',
+          content: `⚠️ ${failure.title}`,
+          timestamp: Date.now(),
+          metadata: {
+              originalPrompt: text,
+              error: failure,
+              settings,
+              inputsFrom: imageInputs?.length ? request?.timestamp : undefined
+          }
+      };
+    }
+  }, [config, brandKits, activeBrandKit, findStyle]);
+
+  // Refines and generates one turn; `place` puts the resulting assistant message into the history
+  const runTurn = useCallback(async (
+    activeMode: ModeId,
+    text: string,
+    request: ChatMessage | undefined,
+    pendingMessage: ChatMessage | undefined,
+    place: (result: ChatMessage) => void,
+    refineContext: Omit<RefineContext, 'hasImages'> = {},
+    settings: GenerationSettings = settingsFromConfig(config, activeBrandKit?.id)
+  ) => {
+    const { jobId, signal, options } = startJob(activeMode, pendingMessage);
+    let status: ModeStatus = 'done';
+
+    try {
+      const provider = getImageProvider();
+      const review = config.promptReview || 'off';
+      let prompts = [text];
+      const hasImages = !!turnInputs(request)?.length;
+      const brandKit = brandKitForMode(brandKits.find(k => k.id === settings.brandKitId) || null, activeMode);
+      const context: RefineContext = { ...refineContext, hasImages, brandKit, style: findStyle(settings.style) };
+
+      // 1. Refine Prompt (Text Generation)
+      if (text.trim().length > 0 || !hasImages) {
+         try {
+             prompts = review === 'choose'
+                 ? await provider.refinePromptAlternatives(text, activeMode, PROMPT_ALTERNATIVES, context, options)
+                 : [await provider.refinePrompt(text, activeMode, context, options)];
+         } catch (e) {
+             if (signal.aborted) return;
+             console.warn("Prompt refinement failed, using original text.");
+             prompts = [text];
+         }
+      }
+
+      if (signal.aborted) return;
+
+      // Fallback prompts if empty
+      prompts = prompts.map(p => p || modeRegistry.get(activeMode).fallbackPrompt);
+
+      // Review mode: stop here and let the user edit or pick before generating
+      if (review !== 'off') {
+        place({
+            role: 'assistant',
+            content: prompts.length > 1
+                ? "Pick a direction and tweak it before I generate."
+                : "Here's the refined prompt. Edit it if you like, then generate.",
+            timestamp: Date.now(),
+            metadata: {
+                originalPrompt: text,
+                promptDraft: prompts
+            }
+        });
+        return;
+      }
+
+      // 2. Generate Image(s)
+      const result = await generateTurn(activeMode, text, request, prompts[0], options, settings);
+      if (signal.aborted) return;
+      if (!result.images) status = 'error';
+      place(result);
+    } finally {
+      finishJob(jobId, status);
+    }
+  }, [config, brandKits, activeBrandKit, findStyle, generateTurn, startJob, finishJob]);
+
+  const appendMessage = useCallback((mode: ModeId, message: ChatMessage) => {
     setHistories(prev => ({
         ...prev,
-        [activeMode]: newMessages
+        [mode]: [...(prev[mode] || []), message]
     }));
-  }, [currentMode, histories]);
+  }, []);
 
-  const handleSendMessage = useCallback(async (text: string, imageInputs?: string[]) => {
+  const replaceMessage = useCallback((mode: ModeId, target: ChatMessage, message: ChatMessage) => {
+    setHistories(prev => ({
+        ...prev,
+        [mode]: (prev[mode] || []).map(m => (m === target ? message : m))
+    }));
+  }, []);
+
+  const handleSendMessage = useCallback(async (text: string, imageInputs?: string[], startFresh: boolean = false) => {
     const activeMode = currentMode;
+    // One job per mode: Enter can still fire while the Send button is disabled
+    if (!projectsLoaded || jobs.some(j => j.mode === activeMode)) return;
+    const previous = histories[activeMode] || [];
+
+    // Follow-ups build on the chat: earlier turns inform refinement, and edits start from the last image
+    const history = startFresh ? '' : summarizeTurns(previous);
+    const baseImage = !startFresh && !imageInputs?.length && looksLikeEdit(text) ? lastAssistantImage(previous) : undefined;
+
     const newUserMsg: ChatMessage = {
       role: 'user',
       content: text,
       images: imageInputs,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(baseImage ? { metadata: { baseImage } } : {})
     };
     
+    appendMessage(activeMode, newUserMsg);
+    await runTurn(
+      activeMode,
+      text,
+      newUserMsg,
+      newUserMsg,
+      result => appendMessage(activeMode, result),
+      { history: history || undefined, isEdit: !!baseImage }
+    );
+  }, [currentMode, histories, jobs, projectsLoaded, runTurn, appendMessage]);
+
+  // Generates a reviewed prompt draft, replacing the draft message with the result
+  const handleConfirmPrompt = useCallback(async (index: number, prompt: string) => {
+    const activeMode = currentMode;
+    const messages = histories[activeMode] || [];
+    const draft = messages[index];
+    if (!draft?.metadata?.promptDraft || jobs.some(j => j.mode === activeMode)) return;
+
+    const request = messages[index - 1];
+
+    // Cancelling leaves the draft in place so it can be generated later
+    const { jobId, signal, options } = startJob(activeMode);
+    let status: ModeStatus = 'done';
+    try {
+      const result = await generateTurn(
+        activeMode,
+        draft.metadata.originalPrompt || '',
+        request,
+        prompt.trim() || modeRegistry.get(activeMode).fallbackPrompt,
+        options
+      );
+      if (signal.aborted) return;
+      if (!result.images) status = 'error';
+      replaceMessage(activeMode, draft, result);
+    } finally {
+      finishJob(jobId, status);
+    }
+  }, [currentMode, histories, jobs, generateTurn, startJob, finishJob, replaceMessage]);
+
+  // Re-run a failed turn from its stored original prompt; the result takes the failed message's place
+  const handleRetryMessage = useCallback((index: number) => {
+    const activeMode = currentMode;
+    const messages = histories[activeMode] || [];
+    const failed = messages[index];
+    if (!failed?.metadata?.error?.retryable || jobs.some(j => j.mode === activeMode)) return;
+
+    const userMessage = messages[index - 1];
+    const text = failed.metadata.originalPrompt ?? (userMessage?.role === 'user' ? userMessage.content : '');
+    // A failed remix answers a "🔁 Remix" bubble; its inputs and settings were recorded on the failure
+    const request = findInputRequest(messages, failed.metadata) || userMessage;
+    runTurn(
+      activeMode,
+      text,
+      request,
+      undefined,
+      result => replaceMessage(activeMode, failed, result),
+      { history: summarizeTurns(messages.slice(0, index - 1)) || undefined, isEdit: !!request?.metadata?.baseImage },
+      failed.metadata.settings
+    );
+  }, [currentMode, histories, jobs, runTurn, replaceMessage]);
+
+  // Rewrite an earlier request and regenerate from there; the previous branch is kept in Previous Chats
+  const handleEditMessage = useCallback((index: number, text: string) => {
+    const activeMode = currentMode;
+    const messages = histories[activeMode] || [];
+    const original = messages[index];
+    if (original?.role !== 'user' || jobs.some(j => j.mode === activeMode)) return;
+
+    setArchives(prev => [{
+        id: createId(),
+        mode: activeMode,
+        messages,
+        archivedAt: Date.now()
+    }, ...prev]);
+
+    const edited: ChatMessage = { ...original, content: text, timestamp: Date.now() };
     setHistories(prev => ({
         ...prev,
-        [activeMode]: [...(prev[activeMode] || []), newUserMsg]
+        [activeMode]: [...messages.slice(0, index), edited]
     }));
-    
-    setGeneratingMode(activeMode);
+    runTurn(
+      activeMode,
+      text,
+      edited,
+      edited,
+      result => appendMessage(activeMode, result),
+      { history: summarizeTurns(messages.slice(0, index)) || undefined, isEdit: !!edited.metadata?.baseImage }
+    );
+  }, [currentMode, histories, jobs, runTurn, appendMessage]);
+
+  // Deleting a request also deletes the reply to it, so replies never lose their prompt
+  const handleDeleteMessage = useCallback((index: number) => {
+    const activeMode = currentMode;
+    const messages = histories[activeMode] || [];
+    const target = messages[index];
+    if (!target || jobs.some(j => j.mode === activeMode)) return;
+
+    const reply = target.role === 'user' && messages[index + 1]?.role === 'assistant' ? messages[index + 1] : null;
+    setHistories(prev => ({
+        ...prev,
+        [activeMode]: (prev[activeMode] || []).filter(m => m !== target && m !== reply)
+    }));
+  }, [currentMode, histories, jobs]);
+
+  // Regenerate an assistant result with its recorded settings, optionally changing one of them.
+  // The refined prompt is reused as-is, except for a new style, which needs a fresh refinement.
+  const handleRemix = useCallback(async (index: number, changes: Partial<GenerationSettings> = {}) => {
+    const activeMode = currentMode;
+    const messages = histories[activeMode] || [];
+    const source = messages[index];
+    const provenance = source?.metadata?.provenance;
+    const finalPrompt = source?.metadata?.finalPrompt;
+    if (!canRemix(provenance) || !finalPrompt || jobs.some(j => j.mode === activeMode)) return;
+
+    // Inputs are looked up, not copied; if their request was deleted the result can't be reproduced
+    const request = findInputRequest(messages, provenance);
+    if (provenance.inputsFrom !== undefined && !request) return;
+
+    const settings: GenerationSettings = {
+      aspectRatio: provenance.aspectRatio,
+      highQuality: provenance.highQuality,
+      variations: provenance.variations,
+      style: provenance.style,
+      brandKitId: provenance.brandKitId,
+      ...changes
+    };
+    const text = source.metadata?.originalPrompt || '';
+    const remixMessage: ChatMessage = {
+      role: 'user',
+      content: describeRemix(changes, findStyle(settings.style)?.name),
+      timestamp: Date.now()
+    };
+    appendMessage(activeMode, remixMessage);
+
+    if ('style' in changes && changes.style !== provenance.style) {
+      runTurn(
+        activeMode,
+        text,
+        request,
+        remixMessage,
+        result => appendMessage(activeMode, result),
+        { history: summarizeTurns(messages.slice(0, index - 1)) || undefined, isEdit: !!request?.metadata?.baseImage },
+        settings
+      );
+      return;
+    }
 
+    const { jobId, signal, options } = startJob(activeMode, remixMessage);
+    let status: ModeStatus = 'done';
     try {
-      let finalPrompt = text;
-      let resultImageUrl: string | null = null;
-      const hasImages = imageInputs && imageInputs.length > 0;
+      const result = await generateTurn(activeMode, text, request, finalPrompt, options, settings);
+      if (signal.aborted) return;
+      if (!result.images) status = 'error';
+      appendMessage(activeMode, result);
+    } finally {
+      finishJob(jobId, status);
+    }
+  }, [currentMode, histories, jobs, findStyle, runTurn, generateTurn, startJob, finishJob, appendMessage]);
 
-      // 1. Refine Prompt (Text Generation)
-      if (text.trim().length > 0 || !hasImages) {
-         try {
-             finalPrompt = await refinePrompt(text, activeMode, hasImages);
-         } catch (e) {
-             console.warn("Prompt refinement failed, using original text.");
-             finalPrompt = text;
-         }
-      }
+  const handleInpaint = useCallback(async (sourceImage: string, mask: string, instruction: string) => {
+    const activeMode = currentMode;
+    const editMessage: ChatMessage = {
+        role: 'user',
+        content: `✏️ Edit region: ${instruction}`,
+        images: [sourceImage],
+        timestamp: Date.now()
+    };
+    setHistories(prev => ({
+        ...prev,
+        [activeMode]: [...(prev[activeMode] || []), editMessage]
+    }));
+    const job = startJob(activeMode, editMessage);
+    const { jobId, signal } = job;
+    const { options, usage } = trackModelUsage(job.options);
+    const startedAt = Date.now();
+    let status: ModeStatus = 'done';
 
-      // Fallback prompts if empty
-      if (!finalPrompt || finalPrompt === "") {
-            if (activeMode === AppMode.BG_REMOVER) finalPrompt = "Isolate the subject on white background.";
-            else if (activeMode === AppMode.THUMBNAIL) finalPrompt = "YouTube thumbnail.";
-            else finalPrompt = "High quality image.";
-      }
+    try {
+      const provider = getImageProvider();
+      const source = await loadImage(sourceImage);
+      const prompt = buildInpaintPrompt(instruction);
+      const aspectRatio = closestAspectRatio(source.naturalWidth, source.naturalHeight);
 
-      // 2. Generate Image (Image Generation)
-      if (hasImages) {
-        resultImageUrl = await generateWithImages(imageInputs, finalPrompt, config.aspectRatio);
-      } else {
-        resultImageUrl = await generateImage(finalPrompt, config.aspectRatio, config.highQuality);
-      }
+      const generated = await provider.generateWithImages(
+        [sourceImage, mask],
+        prompt,
+        aspectRatio,
+        false,
+        0,
+        options
+      );
+      if (!generated) throw new GenerationError('empty-response', "No image data returned from API.");
 
-      if (resultImageUrl) {
-        setHistories(prev => ({
-            ...prev,
-            [activeMode]: [...(prev[activeMode] || []), {
-                role: 'assistant',
-                content: `Here is your ${activeMode} design!`,
-                images: [resultImageUrl as string], 
-                timestamp: Date.now(),
-                metadata: {
-                    originalPrompt: text,
-                    finalPrompt: finalPrompt,
-                    liked: false
-                }
-            }]
-        }));
-      } else {
-        throw new Error("No image data returned from API.");
-      }
+      // Only the masked region may change
+      const composite = await compositeInpaint(sourceImage, generated, mask);
+      if (signal.aborted) return;
 
+      setHistories(prev => ({
+          ...prev,
+          [activeMode]: [...(prev[activeMode] || []), {
+              role: 'assistant',
+              content: `Here is your edited ${modeRegistry.get(activeMode).name} design!`,
+              images: [composite],
+              timestamp: Date.now(),
+              metadata: {
+                  originalPrompt: instruction,
+                  finalPrompt: prompt,
+                  liked: false,
+                  provenance: {
+                      operation: 'inpaint',
+                      provider: provider.id,
+                      ...usage,
+                      aspectRatio,
+                      highQuality: false,
+                      variations: 1,
+                      inputsFrom: editMessage.timestamp,
+                      latencyMs: Date.now() - startedAt,
+                      createdAt: Date.now()
+                  }
+              }
+          }]
+      }));
     } catch (error: any) {
-      console.error("Gemini API Error:", error);
-      let errMessage = error.message || "Unknown error";
-      const errString = error.toString();
-      
-      // Simplified Error Messages for a better user experience
-      if (errString.includes("429") || errMessage.includes("quota") || errMessage.includes("RESOURCE_EXHAUSTED")) {
-        errMessage = "System busy. Please wait a few seconds and try again.";
-      } else if (errString.includes("403") || errMessage.includes("PERMISSION_DENIED")) {
-        errMessage = "Connection refused. The API Key may have restrictions or is invalid.";
-      } else if (errMessage.includes("API Key is missing")) {
-        errMessage = "API Key is missing in the configuration.";
-      } else if (errMessage.includes("SAFETY")) {
-        errMessage = "I couldn't generate that due to safety guidelines. Please try a different description.";
-      } else if (errMessage.includes("fetch")) {
-        errMessage = "Network error. Please check your internet connection.";
-      }
-
+      if (signal.aborted) return;
+      console.error("Inpainting Error:", error);
+      status = 'error';
+      // The mask isn't kept, so an inpaint can't be retried from the chat
+      const failure = { ...describeGenerationError(error), retryable: false };
       setHistories(prev => ({
         ...prev,
         [activeMode]: [...(prev[activeMode] || []), {
             role: 'assistant',
-            content: `⚠️ ${errMessage}`,
-            timestamp: Date.now()
+            content: `⚠️ ${failure.title}`,
+            timestamp: Date.now(),
+            metadata: {
+                originalPrompt: instruction,
+                error: failure
+            }
         }]
       }));
     } finally {
-      setGeneratingMode(prev => (prev === activeMode ? null : prev));
+      finishJob(jobId, status);
     }
-  }, [currentMode, config]);
+  }, [currentMode, startJob, finishJob]);
+
+  const handleApplyOverlay = useCallback((flattened: string, overlay: TextOverlay) => {
+    const activeMode = currentMode;
+    setHistories(prev => ({
+        ...prev,
+        [activeMode]: [...(prev[activeMode] || []), {
+            role: 'assistant',
+            content: `Text added to your ${modeRegistry.get(activeMode).name} design.`,
+            images: [flattened],
+            timestamp: Date.now(),
+            metadata: {
+                originalPrompt: overlay.layers.map(l => l.text).join(' / '),
+                liked: false,
+                overlay
+            }
+        }]
+    }));
+  }, [currentMode]);
 
   return (
     <div className="flex h-screen bg-slate-950 text-slate-100 overflow-hidden font-sans selection:bg-teal-500/30 relative">
       <Sidebar 
+        modes={modes}
         currentMode={currentMode} 
         setMode={handleModeChange} 
         onReset={handleReset}
+        projects={projects}
+        activeProjectId={activeProjectId}
+        onSelectProject={handleSelectProject}
+        onCreateProject={handleCreateProject}
+        onRenameProject={handleRenameProject}
+        onDeleteProject={handleDeleteProject}
+        archivedSessions={currentArchives}
+        onRestoreSession={handleRestoreSession}
+        onDeleteSession={handleDeleteSession}
+        isBusy={isBusy}
+        modeStatuses={modeStatuses}
+        onOpenMemory={() => setShowMemoryPanel(true)}
+        onOpenGallery={() => setShowGallery(true)}
+        onManageModes={() => setShowModeEditor(true)}
       />
       
       <main className="flex-1 flex flex-col relative w-full h-full bg-slate-950">
@@ -211,14 +1080,73 @@ function App() {
             key={currentMode} 
             messages={currentMessages} 
             onSendMessage={handleSendMessage}
+            onConfirmPrompt={handleConfirmPrompt}
+            onRetryMessage={handleRetryMessage}
+            onEditMessage={handleEditMessage}
+            onDeleteMessage={handleDeleteMessage}
             onLikeMessage={handleLikeMessage}
+            onDislikeMessage={handleDislikeMessage}
+            onSelectVariant={handleSelectVariant}
+            onUpdateImage={handleUpdateImage}
+            onInpaint={handleInpaint}
+            onApplyOverlay={handleApplyOverlay}
             isGenerating={isGenerating}
+            isLoading={!projectsLoaded}
+            queueStatus={jobs.find(j => j.mode === currentMode)?.queue}
+            onCancelGeneration={handleCancelGeneration}
             currentMode={currentMode}
             config={config}
             setConfig={setConfig}
+            brandKits={brandKits}
+            activeBrandKit={activeBrandKit}
+            onSelectBrandKit={handleSelectBrandKit}
+            onManageBrandKits={() => setShowBrandKits(true)}
+            styles={styles}
+            onSaveStyle={handleSaveStyle}
+            onDeleteStyle={handleDeleteStyle}
+            onRemix={handleRemix}
+            onRestoreRecipe={handleRestoreRecipe}
+            restoredPrompt={restoredPrompt}
+            onPromptRestored={() => setRestoredPrompt(null)}
+            onAnalyzeStyle={handleAnalyzeStyle}
          />
       </main>
 
+      {showMemoryPanel && (
+        <MemoryPanel initialMode={currentMode} onClose={() => setShowMemoryPanel(false)} />
+      )}
+
+      {showGallery && (
+        <Gallery
+          projectName={activeProject?.name}
+          histories={histories}
+          archives={archives}
+          onClose={() => setShowGallery(false)}
+        />
+      )}
+
+      {showModeEditor && (
+        <ModeEditor
+          modes={modes}
+          initialModeId={currentMode}
+          runningModes={jobs.map(j => j.mode)}
+          onSave={handleSaveMode}
+          onDelete={handleDeleteMode}
+          onClose={() => setShowModeEditor(false)}
+        />
+      )}
+
+      {showBrandKits && (
+        <BrandKitManager
+          kits={brandKits}
+          activeId={activeBrandKitId}
+          onSave={handleSaveBrandKit}
+          onDelete={handleDeleteBrandKit}
+          onSelect={handleSelectBrandKit}
+          onClose={() => setShowBrandKits(false)}
+        />
+      )}
+
       <AdOverlay 
         isOpen={showAdOverlay} 
         onClose={() => setShowAdOverlay(false)} 
@@ -0,0 +1,234 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { X, Eraser, Brush, Check, Loader2, SlidersHorizontal } from 'lucide-react';
+import { removeBackground, DEFAULT_MATTING_OPTIONS, MattingOptions } from '../services/backgroundRemoval';
+import { createCanvas, loadImage } from '../services/imageUtils';
+import { CHECKERBOARD_STYLE } from './ImageCanvas';
+
+interface BackgroundRefinerProps {
+  image: string;          // Current transparent result
+  originalImage: string;  // Model output before matting, used by the restore brush
+  onApply: (url: string) => void;
+  onClose: () => void;
+}
+
+type BrushMode = 'erase' | 'restore';
+
+const REMATTE_DEBOUNCE_MS = 250;
+
+const BackgroundRefiner: React.FC<BackgroundRefinerProps> = ({ image, originalImage, onApply, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const originalRef = useRef<HTMLCanvasElement | null>(null);
+  const isDrawing = useRef(false);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const rematteTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const matteRun = useRef(0);
+
+  const [brushMode, setBrushMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(24);
+  const [options, setOptions] = useState<MattingOptions>(DEFAULT_MATTING_OPTIONS);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const drawToCanvas = useCallback(async (src: string) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const img = await loadImage(src);
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    ctx?.clearRect(0, 0, canvas.width, canvas.height);
+    ctx?.drawImage(img, 0, 0);
+  }, []);
+
+  useEffect(() => {
+    drawToCanvas(image).catch(e => console.error("Failed to load cutout", e));
+    loadImage(originalImage)
+      .then(img => {
+        const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+        ctx.drawImage(img, 0, 0);
+        originalRef.current = canvas;
+      })
+      .catch(e => console.error("Failed to load original image", e));
+  }, [image, originalImage, drawToCanvas]);
+
+  useEffect(() => () => clearTimeout(rematteTimer.current), []);
+
+  const rematte = async (next: MattingOptions) => {
+    clearTimeout(rematteTimer.current);
+    setOptions(next);
+    setIsProcessing(true);
+    // Only the latest run may draw; slider changes can overlap a slow one
+    const run = ++matteRun.current;
+    try {
+      const result = await removeBackground(originalImage, next);
+      if (run === matteRun.current) await drawToCanvas(result);
+    } catch (e) {
+      console.error("Failed to re-run background removal", e);
+    } finally {
+      if (run === matteRun.current) setIsProcessing(false);
+    }
+  };
+
+  // Sliders fire on every step (drag or arrow keys); wait for them to settle
+  const scheduleRematte = (next: MattingOptions) => {
+    setOptions(next);
+    // Busy from the first step, so Apply can't take the cutout from the old values
+    setIsProcessing(true);
+    clearTimeout(rematteTimer.current);
+    rematteTimer.current = setTimeout(() => rematte(next), REMATTE_DEBOUNCE_MS);
+  };
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width
+    };
+  };
+
+  const paintDab = (x: number, y: number, radius: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.save();
+    if (brushMode === 'erase') {
+      // Soft-edged eraser
+      const gradient = ctx.createRadialGradient(x, y, radius * 0.5, x, y, radius);
+      gradient.addColorStop(0, 'rgba(0,0,0,1)');
+      gradient.addColorStop(1, 'rgba(0,0,0,0)');
+      ctx.globalCompositeOperation = 'destination-out';
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (originalRef.current) {
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.clip();
+      ctx.drawImage(originalRef.current, 0, 0);
+    }
+    ctx.restore();
+  };
+
+  const paintStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y, scale } = toImagePoint(e);
+    const radius = (brushSize / 2) * scale;
+    const from = lastPoint.current || { x, y };
+
+    // Interpolate dabs so fast strokes stay continuous
+    const dist = Math.hypot(x - from.x, y - from.y);
+    const steps = Math.max(1, Math.ceil(dist / (radius / 3)));
+    for (let i = 1; i <= steps; i++) {
+      paintDab(from.x + ((x - from.x) * i) / steps, from.y + ((y - from.y) * i) / steps, radius);
+    }
+    lastPoint.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    isDrawing.current = true;
+    lastPoint.current = null;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    paintStroke(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isDrawing.current) paintStroke(e);
+  };
+
+  const handlePointerUp = () => {
+    isDrawing.current = false;
+    lastPoint.current = null;
+  };
+
+  const handleApply = () => {
+    if (!canvasRef.current) return;
+    onApply(canvasRef.current.toDataURL('image/png'));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-4xl w-full max-h-full flex flex-col overflow-hidden">
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white">Refine Cutout</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setBrushMode('erase')}
+              className={`flex items-center gap-1.5 text-xs rounded-lg border py-1.5 px-3 transition-all ${brushMode === 'erase' ? 'bg-teal-900/30 border-teal-500/50 text-teal-300' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+            >
+              <Eraser size={14} /> Erase
+            </button>
+            <button
+              onClick={() => setBrushMode('restore')}
+              className={`flex items-center gap-1.5 text-xs rounded-lg border py-1.5 px-3 transition-all ${brushMode === 'restore' ? 'bg-teal-900/30 border-teal-500/50 text-teal-300' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+            >
+              <Brush size={14} /> Restore
+            </button>
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              Size
+              <input type="range" min={4} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-24 accent-teal-500" />
+            </label>
+            <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Canvas over checkerboard */}
+        <div className="flex-1 min-h-0 overflow-auto p-4 flex items-center justify-center bg-slate-950">
+          <div className="relative inline-block rounded-lg overflow-hidden" style={CHECKERBOARD_STYLE}>
+            <canvas
+              ref={canvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              className="block max-w-full max-h-[60vh] cursor-crosshair touch-none"
+            />
+            {isProcessing && (
+              <div className="absolute inset-0 flex items-center justify-center bg-slate-950/50">
+                <Loader2 size={32} className="animate-spin text-teal-400" />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Matting Controls */}
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-t border-slate-800">
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <SlidersHorizontal size={14} className="text-slate-500" />
+            <label className="flex items-center gap-2">
+              Tolerance
+              <input type="range" min={5} max={80} value={options.tolerance}
+                onChange={(e) => scheduleRematte({ ...options, tolerance: Number(e.target.value) })}
+                className="w-24 accent-teal-500" />
+            </label>
+            <label className="flex items-center gap-2">
+              Feather
+              <input type="range" min={0} max={4} value={options.feather}
+                onChange={(e) => scheduleRematte({ ...options, feather: Number(e.target.value) })}
+                className="w-20 accent-teal-500" />
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.haloCleanup} disabled={isProcessing}
+                onChange={(e) => rematte({ ...options, haloCleanup: e.target.checked })}
+                className="accent-teal-500" />
+              Halo cleanup
+            </label>
+          </div>
+          <button
+            onClick={handleApply}
+            disabled={isProcessing}
+            className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium shadow-lg transition-all"
+          >
+            <Check size={16} /> Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundRefiner;
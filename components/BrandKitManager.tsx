@@ -0,0 +1,238 @@
+import React, { useState, useRef } from 'react';
+import { X, Palette, Plus, Trash2, Check, Upload, ImageOff } from 'lucide-react';
+import { BrandKit } from '../types';
+import { brandKitService, normalizeHex } from '../services/brandKitService';
+import { OVERLAY_FONTS } from '../services/textOverlay';
+import { downscaleImage } from '../services/imageUtils';
+
+interface BrandKitManagerProps {
+  kits: BrandKit[];
+  activeId: string | null;
+  onSave: (kit: BrandKit) => void;
+  onDelete: (id: string) => void;
+  onSelect: (id: string | null) => void;
+  onClose: () => void;
+}
+
+// Logos are sent with every generation, so keep them small
+const LOGO_MAX_SIDE = 512;
+
+const inputClass = "w-full bg-slate-800 text-slate-200 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none";
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2";
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ kits, activeId, onSave, onDelete, onSelect, onClose }) => {
+  const [draft, setDraft] = useState<BrandKit>(() => kits.find(k => k.id === activeId) || kits[0] || brandKitService.create('My Brand'));
+  const [hexInput, setHexInput] = useState('');
+  const [fontInput, setFontInput] = useState('');
+  const [toneInput, setToneInput] = useState(draft.toneWords.join(', '));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isSaved = kits.some(k => k.id === draft.id);
+
+  const edit = (changes: Partial<BrandKit>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const openKit = (kit: BrandKit) => {
+    setDraft(kit);
+    setToneInput(kit.toneWords.join(', '));
+  };
+
+  const handleNew = () => openKit(brandKitService.create(`Brand ${kits.length + 1}`));
+
+  const addColor = (value: string) => {
+    const hex = normalizeHex(value);
+    if (!hex || draft.palette.includes(hex)) return;
+    edit({ palette: [...draft.palette, hex] });
+    setHexInput('');
+  };
+
+  const toggleFont = (font: string) => {
+    edit({ fonts: draft.fonts.includes(font) ? draft.fonts.filter(f => f !== font) : [...draft.fonts, font] });
+  };
+
+  const addCustomFont = () => {
+    const font = fontInput.trim();
+    if (font && !draft.fonts.includes(font)) edit({ fonts: [...draft.fonts, font] });
+    setFontInput('');
+  };
+
+  const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (!reader.result) return;
+      downscaleImage(reader.result as string, LOGO_MAX_SIDE)
+        .then(logo => edit({ logo }))
+        .catch(err => console.error("Couldn't read logo", err));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    const kit: BrandKit = {
+      ...draft,
+      name: draft.name.trim() || 'Untitled Brand',
+      toneWords: toneInput.split(',').map(w => w.trim()).filter(Boolean),
+      updatedAt: Date.now()
+    };
+    onSave(kit);
+    setDraft(kit);
+  };
+
+  const handleDelete = () => {
+    if (!isSaved || !window.confirm(`Delete the "${draft.name}" brand kit?`)) return;
+    onDelete(draft.id);
+    const next = kits.find(k => k.id !== draft.id);
+    openKit(next || brandKitService.create('My Brand'));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-4xl w-full h-[80vh] flex flex-col overflow-hidden">
+
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Palette size={18} className="text-teal-400" /> Brand Kits</h3>
+          <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+          {/* Kit list */}
+          <div className="md:w-56 border-b md:border-b-0 md:border-r border-slate-800 p-3 space-y-1 overflow-y-auto">
+            <button onClick={handleNew} className="w-full flex items-center gap-2 text-xs text-teal-400 hover:bg-slate-800 rounded-lg px-2 py-1.5 mb-2">
+              <Plus size={14} /> New brand kit
+            </button>
+            {kits.map(kit => (
+              <button
+                key={kit.id}
+                onClick={() => openKit(kit)}
+                className={`w-full flex items-center gap-2 text-left text-xs px-2 py-1.5 rounded-lg transition-colors ${kit.id === draft.id ? 'bg-slate-800 text-white' : 'text-slate-400 hover:bg-slate-800/50'}`}
+              >
+                <span className="flex -space-x-1">
+                  {kit.palette.slice(0, 3).map(color => (
+                    <span key={color} className="w-3 h-3 rounded-full border border-slate-900" style={{ backgroundColor: color }} />
+                  ))}
+                </span>
+                <span className="truncate flex-1">{kit.name}</span>
+                {kit.id === activeId && <Check size={12} className="text-teal-400" />}
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-5">
+            <input value={draft.name} onChange={(e) => edit({ name: e.target.value })} placeholder="Brand name" className={`${inputClass} text-sm font-medium`} />
+
+            <div>
+              <p className={labelClass}>Palette</p>
+              <div className="flex flex-wrap items-center gap-2">
+                {draft.palette.map((color, i) => (
+                  <div key={i} className="relative group">
+                    <input
+                      type="color"
+                      value={color}
+                      onChange={(e) => edit({ palette: draft.palette.map((c, j) => (j === i ? e.target.value : c)) })}
+                      className="w-9 h-9 bg-transparent cursor-pointer"
+                      title={i === 0 ? `${color} (primary)` : color}
+                    />
+                    <button
+                      onClick={() => edit({ palette: draft.palette.filter((_, j) => j !== i) })}
+                      className="absolute -top-1 -right-1 bg-slate-700 rounded-full p-0.5 text-slate-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                ))}
+                <input
+                  value={hexInput}
+                  onChange={(e) => setHexInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addColor(hexInput)}
+                  placeholder="#ff5500"
+                  className={`${inputClass.replace('w-full', 'w-24')} font-mono`}
+                />
+                <button onClick={() => addColor(hexInput)} disabled={!normalizeHex(hexInput)} className="p-1.5 text-teal-400 hover:text-teal-300 disabled:opacity-40" title="Add color">
+                  <Plus size={16} />
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <p className={labelClass}>Fonts <span className="normal-case tracking-normal font-normal">(first is the headline font)</span></p>
+              <div className="flex flex-wrap gap-1.5">
+                {[...draft.fonts, ...OVERLAY_FONTS.filter(f => !draft.fonts.includes(f))].map(font => (
+                  <button
+                    key={font}
+                    onClick={() => toggleFont(font)}
+                    style={{ fontFamily: font }}
+                    className={`text-xs px-2.5 py-1 rounded-full border transition-colors ${draft.fonts.includes(font) ? 'bg-teal-900/30 border-teal-500/50 text-teal-200' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                  >
+                    {font}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2 mt-2">
+                <input
+                  value={fontInput}
+                  onChange={(e) => setFontInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addCustomFont()}
+                  placeholder="Other Google Font, e.g. Poppins"
+                  className={inputClass}
+                />
+                <button onClick={addCustomFont} disabled={!fontInput.trim()} className="p-1.5 text-teal-400 hover:text-teal-300 disabled:opacity-40" title="Add font">
+                  <Plus size={16} />
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <p className={labelClass}>Tone words</p>
+              <input value={toneInput} onChange={(e) => setToneInput(e.target.value)} placeholder="playful, bold, friendly" className={inputClass} />
+            </div>
+
+            <div>
+              <p className={labelClass}>Logo</p>
+              <input type="file" accept="image/*" ref={fileInputRef} onChange={handleLogo} className="hidden" />
+              <div className="flex items-center gap-3">
+                {draft.logo ? (
+                  <img src={draft.logo} alt="Brand logo" className="w-16 h-16 object-contain rounded-lg border border-slate-700 bg-slate-800" />
+                ) : (
+                  <div className="w-16 h-16 rounded-lg border border-dashed border-slate-700 flex items-center justify-center text-slate-600"><ImageOff size={18} /></div>
+                )}
+                <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 py-1.5 px-3 transition-colors">
+                  <Upload size={14} /> {draft.logo ? 'Replace' : 'Upload'}
+                </button>
+                {draft.logo && (
+                  <button onClick={() => edit({ logo: undefined })} className="text-xs text-slate-500 hover:text-red-400">Remove</button>
+                )}
+              </div>
+              <p className="text-[11px] text-slate-500 mt-2">Sent as a reference image with every generation while this kit is active (except Background Remover).</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 p-4 border-t border-slate-800">
+          <button onClick={handleDelete} disabled={!isSaved} className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-red-400 disabled:opacity-40">
+            <Trash2 size={14} /> Delete
+          </button>
+          <div className="flex items-center gap-2">
+            {isSaved && (
+              <button
+                onClick={() => onSelect(draft.id === activeId ? null : draft.id)}
+                className="text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 py-2 px-3 transition-colors"
+              >
+                {draft.id === activeId ? 'Deactivate' : 'Use this kit'}
+              </button>
+            )}
+            <button onClick={handleSave} className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 text-white text-sm px-4 py-2 rounded-lg font-medium shadow-lg transition-all">
+              <Check size={16} /> Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitManager;
@@ -1,31 +1,144 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Upload, Sparkles, X, Image as ImageIcon, Plus, Download, Share2, ThumbsUp } from 'lucide-react';
-import { ChatMessage, AppMode, GenerationConfig } from '../types';
+import { Send, Upload, Sparkles, X, Image as ImageIcon, Plus, Download, Share2, ThumbsUp, ThumbsDown, Eraser, PenTool, Type, Spline, AppWindow, Copy, Check, Clock, KeyRound, ShieldAlert, WifiOff, ImageOff, AlertTriangle, RotateCcw, PencilLine, Pencil, Trash2, Link2, Link2Off, Brush, Loader2 } from 'lucide-react';
+import { AspectRatio, BrandKit, ChatMessage, GenerationConfig, GenerationErrorKind, GenerationSettings, ImageRecipe, ModeId, PromptReviewMode, QueueStatus, StylePreset, TextOverlay } from '../types';
 import AdUnit from './AdUnit';
+import BackgroundRefiner from './BackgroundRefiner';
+import InpaintEditor from './InpaintEditor';
+import TextOverlayEditor from './TextOverlayEditor';
+import ExportDialog from './ExportDialog';
+import VectorizeDialog from './VectorizeDialog';
+import IconPackDialog from './IconPackDialog';
+import PromptReview from './PromptReview';
+import StylePicker, { StyleSwatch } from './StylePicker';
+import GenerationInfo from './GenerationInfo';
+import { CHECKERBOARD_STYLE } from './ImageCanvas';
+import { DISLIKE_REASONS } from '../services/memoryService';
+import { lastAssistantImage, looksLikeEdit, turnInputs } from '../services/conversationContext';
+import { findInputRequest } from '../services/provenance';
+import { modeRegistry } from '../services/modeRegistry';
+import { describeGenerationError } from '../services/errors';
+import { buildRecipe, readRecipe } from '../services/imageMetadata';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
-  onSendMessage: (text: string, images?: string[]) => void;
-  onLikeMessage?: (index: number) => void;
+  onSendMessage: (text: string, images?: string[], startFresh?: boolean) => void;
+  onConfirmPrompt?: (index: number, prompt: string) => void;
+  onRetryMessage?: (index: number) => void;
+  onEditMessage?: (index: number, text: string) => void;
+  onDeleteMessage?: (index: number) => void;
+  onLikeMessage?: (index: number, variantIndex: number) => void;
+  onDislikeMessage?: (index: number, reasons: string[]) => void;
+  onSelectVariant?: (index: number, variantIndex: number) => void;
+  onUpdateImage?: (index: number, variantIndex: number, url: string) => void;
+  onInpaint?: (image: string, mask: string, instruction: string) => void;
+  onApplyOverlay?: (flattened: string, overlay: TextOverlay) => void;
   isGenerating: boolean;
-  currentMode: AppMode;
+  isLoading?: boolean; // Saved projects not loaded yet; sending is held until they are
+  queueStatus?: QueueStatus;
+  onCancelGeneration?: () => void;
+  currentMode: ModeId;
   config: GenerationConfig;
   setConfig: React.Dispatch<React.SetStateAction<GenerationConfig>>;
+  brandKits?: BrandKit[];
+  activeBrandKit?: BrandKit | null;
+  onSelectBrandKit?: (id: string | null) => void;
+  onManageBrandKits?: () => void;
+  styles?: StylePreset[];
+  onSaveStyle?: (style: StylePreset) => void;
+  onDeleteStyle?: (id: string) => void;
+  onAnalyzeStyle?: (image: string) => Promise<StylePreset>;
+  onRemix?: (index: number, changes?: Partial<GenerationSettings>) => void;
+  onRestoreRecipe?: (recipe: ImageRecipe, source: string) => void;
+  restoredPrompt?: { text: string; source: string } | null; // Set by a restored recipe, consumed once
+  onPromptRestored?: () => void;
 }
 
+const ERROR_ICONS: Record<GenerationErrorKind, React.ReactNode> = {
+  'quota': <Clock size={16} />,
+  'auth': <KeyRound size={16} />,
+  'safety': <ShieldAlert size={16} />,
+  'network': <WifiOff size={16} />,
+  'empty-response': <ImageOff size={16} />,
+  'invalid-input': <AlertTriangle size={16} />,
+  'unknown': <AlertTriangle size={16} />
+};
+
+// Kinds where rewording the request is the likely fix
+const REPHRASE_KINDS: GenerationErrorKind[] = ['safety', 'empty-response', 'invalid-input'];
+
+const describeQueueStatus = (status: QueueStatus | undefined, now: number): string => {
+  if (!status || status.state === 'running') return 'PixFroge is crafting your vision...';
+  const seconds = Math.max(0, Math.ceil((status.until - now) / 1000));
+  return status.state === 'queued'
+    ? `Queued #${status.position} · starts in ~${seconds}s`
+    : `Rate limited · retrying in ${seconds}s (attempt ${status.attempt}/${status.maxAttempts})`;
+};
+
+// Sentinel option in the brand select that opens the manager instead of selecting
+const MANAGE_BRAND_KITS = '__manage__';
+
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   messages, 
   onSendMessage, 
+  onConfirmPrompt,
+  onRetryMessage,
+  onEditMessage,
+  onDeleteMessage,
   onLikeMessage,
+  onDislikeMessage,
+  onSelectVariant,
+  onUpdateImage,
+  onInpaint,
+  onApplyOverlay,
   isGenerating, 
+  isLoading = false,
+  queueStatus,
+  onCancelGeneration,
   currentMode,
   config,
-  setConfig
+  setConfig,
+  brandKits = [],
+  activeBrandKit,
+  onSelectBrandKit,
+  onManageBrandKits,
+  styles = [],
+  onSaveStyle,
+  onDeleteStyle,
+  onAnalyzeStyle,
+  onRemix,
+  onRestoreRecipe,
+  restoredPrompt,
+  onPromptRestored
 }) => {
   const [inputText, setInputText] = useState('');
   const [selectedImages, setSelectedImages] = useState<string[]>([]);
+  const [refineTarget, setRefineTarget] = useState<{ index: number; variantIndex: number } | null>(null);
+  const [inpaintImage, setInpaintImage] = useState<string | null>(null);
+  const [overlayTarget, setOverlayTarget] = useState<TextOverlay | null>(null);
+  const [exportTarget, setExportTarget] = useState<{ image: string; recipe?: ImageRecipe } | null>(null);
+  const [vectorizeImage, setVectorizeImage] = useState<string | null>(null);
+  const [iconPackImage, setIconPackImage] = useState<string | null>(null);
+  const [dislikeTarget, setDislikeTarget] = useState<number | null>(null);
+  const [dislikeReasons, setDislikeReasons] = useState<string[]>([]);
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [startFresh, setStartFresh] = useState(false);
+  const [showStylePicker, setShowStylePicker] = useState(false);
+  const [analyzedStyle, setAnalyzedStyle] = useState<StylePreset | undefined>(undefined);
+  const [analyzingImage, setAnalyzingImage] = useState<string | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [recipeNotice, setRecipeNotice] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
+  const mode = modeRegistry.get(currentMode);
+  const activeStyle = styles.find(s => s.id === config.style);
+  const supportsTextOverlay = mode.tools.includes('text-layers');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -35,16 +148,77 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [messages, isGenerating]);
 
+  // Tick the countdown while waiting on the rate limiter
+  useEffect(() => {
+    if (!queueStatus || queueStatus.state === 'running') return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [queueStatus]);
+
+  // Preview of what App will do: a follow-up edit builds on the latest result unless told otherwise
+  const followUpBase = selectedImages.length === 0 && looksLikeEdit(inputText) ? lastAssistantImage(messages) : undefined;
+
   const handleSend = () => {
+    if (isGenerating || isLoading) return;
     if (!inputText.trim() && selectedImages.length === 0) return;
-    onSendMessage(inputText, selectedImages.length > 0 ? selectedImages : undefined);
+    onSendMessage(inputText, selectedImages.length > 0 ? selectedImages : undefined, startFresh);
     setInputText('');
     setSelectedImages([]);
+    setStartFresh(false);
     if (fileInputRef.current) {
         fileInputRef.current.value = '';
     }
   };
 
+  const startEditing = (index: number, text: string) => {
+    setEditingIndex(index);
+    setEditDraft(text);
+  };
+
+  const submitEdit = () => {
+    if (editingIndex === null || !editDraft.trim()) return;
+    onEditMessage?.(editingIndex, editDraft.trim());
+    setEditingIndex(null);
+  };
+
+  // Put a failed request back in the input box for rewording
+  const rephrase = (text: string) => {
+    setInputText(text);
+    textareaRef.current?.focus();
+  };
+
+  // Prompt from a dropped export, possibly handed over from another mode's chat
+  useEffect(() => {
+    if (!restoredPrompt) return;
+    setInputText(restoredPrompt.text);
+    setRecipeNotice(`Restored the prompt and settings from ${restoredPrompt.source}.`);
+    onPromptRestored?.();
+    textareaRef.current?.focus();
+  }, [restoredPrompt]);
+
+  const copyText = (key: string, text: string) => {
+    navigator.clipboard?.writeText(text).then(() => {
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey(current => (current === key ? null : current)), 1500);
+    });
+  };
+
+  const openDislike = (index: number) => {
+    setDislikeTarget(index);
+    setDislikeReasons([]);
+  };
+
+  const toggleDislikeReason = (reason: string) => {
+    setDislikeReasons(prev => prev.includes(reason) ? prev.filter(r => r !== reason) : [...prev, reason]);
+  };
+
+  const submitDislike = () => {
+    if (dislikeTarget === null) return;
+    onDislikeMessage?.(dislikeTarget, dislikeReasons);
+    setDislikeTarget(null);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -52,37 +226,82 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  // Our own exports carry a recipe; those restore it instead of becoming references
+  const addFiles = (files: File[]) => {
+    files.filter(file => file.type.startsWith('image/')).forEach(async file => {
+      const recipe = onRestoreRecipe ? await readRecipe(file) : null;
+      if (recipe) {
+        onRestoreRecipe?.(recipe, file.name);
+        return;
+      }
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        if (reader.result) {
+          setSelectedImages(prev => [...prev, reader.result as string]);
+        }
+      };
+      reader.readAsDataURL(file);
+    });
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const files = Array.from(e.target.files) as File[];
-      files.forEach(file => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          if (reader.result) {
-            setSelectedImages(prev => [...prev, reader.result as string]);
-          }
-        };
-        reader.readAsDataURL(file);
-      });
+      addFiles(Array.from(e.target.files) as File[]);
     }
     e.target.value = '';
   };
 
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files) as File[]);
+  };
+
   const removeImage = (index: number) => {
     setSelectedImages(prev => prev.filter((_, i) => i !== index));
   };
 
-  const downloadImage = (url: string, prefix: string) => {
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${prefix}-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Saves the image's look as a style, then opens it in the picker for naming and tweaks
+  const handleAnalyzeStyle = async (image: string) => {
+    if (!onAnalyzeStyle || analyzingImage) return;
+    setAnalyzingImage(image);
+    setAnalysisError(null);
+    try {
+      const style = await onAnalyzeStyle(image);
+      setAnalyzedStyle(style);
+      setShowStylePicker(true);
+    } catch (err) {
+      const error = describeGenerationError(err);
+      setAnalysisError(`${error.title}: ${error.message}`);
+    } finally {
+      setAnalyzingImage(null);
+    }
+  };
+
+  const closeStylePicker = () => {
+    setShowStylePicker(false);
+    setAnalyzedStyle(undefined);
   };
 
   return (
-    <div className="flex-1 flex flex-col h-full relative bg-slate-950">
+    <div className="flex-1 flex flex-col h-full relative bg-slate-950" onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-40 m-3 rounded-2xl border-2 border-dashed border-teal-500/60 bg-slate-950/80 flex flex-col items-center justify-center gap-2 pointer-events-none">
+          <Upload size={28} className="text-teal-400" />
+          <p className="text-sm text-slate-200 font-medium">Drop images to attach them</p>
+          <p className="text-xs text-slate-500">PixFrog exports restore their prompt and settings instead</p>
+        </div>
+      )}
       
       {/* Header */}
       <div className="p-4 border-b border-slate-800 bg-slate-900/90 backdrop-blur-md sticky top-0 z-20 flex justify-between items-center shadow-lg">
@@ -91,14 +310,37 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             <Sparkles className="w-5 h-5 text-teal-400" />
             PixFroge Assistant
             </h3>
-            <p className="text-xs text-slate-500 mt-0.5 font-medium">Mode: <span className="text-teal-400">{currentMode}</span></p>
+            <p className="text-xs text-slate-500 mt-0.5 font-medium">Mode: <span className="text-teal-400">{mode.name}</span></p>
         </div>
         
         {/* Compact Settings in Header */}
         <div className="flex items-center gap-2">
+            <button
+             onClick={() => setShowStylePicker(true)}
+             className={`text-xs rounded-lg border py-1.5 px-2 transition-all flex items-center gap-1.5 max-w-[9rem] ${activeStyle ? 'bg-slate-800 border-teal-500/50 text-teal-300' : 'bg-slate-800 border-slate-700 text-slate-300'}`}
+             title="Visual style passed to prompt refinement"
+           >
+             {activeStyle ? <StyleSwatch style={activeStyle} className="w-4 h-4 rounded shrink-0" /> : <Brush size={14} />}
+             <span className="truncate hidden sm:inline">{activeStyle?.name || 'Style'}</span>
+           </button>
+            <select
+             value={activeBrandKit?.id || ''}
+             onChange={(e) => {
+               if (e.target.value === MANAGE_BRAND_KITS) onManageBrandKits?.();
+               else onSelectBrandKit?.(e.target.value || null);
+             }}
+             className={`bg-slate-800 text-xs rounded-lg border py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none hidden sm:block max-w-[9rem] ${activeBrandKit ? 'border-teal-500/50 text-teal-300' : 'border-slate-700 text-slate-300'}`}
+             title="Brand kit applied to prompts, text layers and exports"
+           >
+             <option value="">No brand kit</option>
+             {brandKits.map(kit => (
+               <option key={kit.id} value={kit.id}>{kit.name}</option>
+             ))}
+             <option value={MANAGE_BRAND_KITS}>Manage brand kits…</option>
+           </select>
             <select 
              value={config.aspectRatio}
-             onChange={(e) => setConfig({...config, aspectRatio: e.target.value as any})}
+             onChange={(e) => setConfig({...config, aspectRatio: e.target.value as AspectRatio})}
              className="bg-slate-800 text-slate-300 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none hidden sm:block"
            >
              <option value="1:1">1:1 Square</option>
@@ -107,6 +349,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
              <option value="3:4">3:4 Vertical</option>
              <option value="4:3">4:3 Standard</option>
            </select>
+           <select
+             value={config.variations || 1}
+             onChange={(e) => setConfig({...config, variations: Number(e.target.value)})}
+             className="bg-slate-800 text-slate-300 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none"
+             title="Variations per prompt"
+           >
+             {[1, 2, 3, 4].map(n => (
+               <option key={n} value={n}>{n === 1 ? '1 image' : `${n} variations`}</option>
+             ))}
+           </select>
+           <select
+             value={config.promptReview || 'off'}
+             onChange={(e) => setConfig({...config, promptReview: e.target.value as PromptReviewMode})}
+             className="bg-slate-800 text-slate-300 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none hidden md:block"
+             title="Review the refined prompt before generating"
+           >
+             <option value="off">Auto prompt</option>
+             <option value="edit">Review prompt</option>
+             <option value="choose">Pick from 3</option>
+           </select>
            <button 
               onClick={() => setConfig({...config, highQuality: !config.highQuality})}
               className={`text-xs rounded-lg border py-1.5 px-3 transition-all flex items-center gap-2 ${config.highQuality ? 'bg-teal-900/30 border-teal-500/50 text-teal-300' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
@@ -132,13 +394,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 </div>
                 <h2 className="text-2xl font-bold text-slate-300 mb-2">PixFroge AI</h2>
                 <p className="text-slate-500 text-sm max-w-md mx-auto mb-4">Select a mode from the sidebar and describe your vision. You can also upload reference images.</p>
-                {currentMode === AppMode.THUMBNAIL && (
-                  <p className="text-teal-400 text-xs font-medium bg-teal-900/20 px-3 py-1 rounded-full border border-teal-500/20">Pro Tip: Upload a screenshot for thumbnail remixes!</p>
-                )}
+                {mode.tips.map(tip => (
+                  <p key={tip} className="text-teal-400 text-xs font-medium bg-teal-900/20 px-3 py-1 rounded-full border border-teal-500/20 mb-2">{tip}</p>
+                ))}
             </div>
         )}
 
-        {messages.map((msg, idx) => (
+        {messages.map((msg, idx) => {
+          const selectedIndex = Math.min(msg.metadata?.selectedIndex || 0, (msg.images?.length || 1) - 1);
+          const selectedImage = msg.images?.[selectedIndex];
+          const originalImage = msg.metadata?.originalImages?.[selectedIndex];
+          // Likes from before variations were tracked apply to whichever one was selected
+          const likedIndex = msg.metadata?.likedIndex ?? selectedIndex;
+          const provenance = msg.metadata?.provenance;
+          const inputImages = provenance ? turnInputs(findInputRequest(messages, provenance)) : undefined;
+          // The request holding the references was deleted, so a remix would drop them
+          const inputsMissing = provenance?.inputsFrom !== undefined && !inputImages;
+          return (
           <React.Fragment key={idx}>
           <div className={`flex flex-col max-w-3xl mx-auto w-full group ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
             
@@ -153,9 +425,57 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 ))}
                             </div>
                         )}
-                        <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.content}</p>
+                        {msg.metadata?.baseImage && (
+                            <div className="flex items-center gap-2 mb-2 text-[11px] text-teal-100/80">
+                                <img src={msg.metadata.baseImage} alt="Edited result" className="w-8 h-8 object-cover rounded-md border border-white/20" />
+                                Editing previous result
+                            </div>
+                        )}
+                        {editingIndex === idx ? (
+                            <div className="space-y-2">
+                                <textarea
+                                    autoFocus
+                                    value={editDraft}
+                                    onChange={(e) => setEditDraft(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                                        if (e.key === 'Escape') setEditingIndex(null);
+                                    }}
+                                    rows={3}
+                                    className="w-full min-w-[240px] bg-teal-700/60 text-white text-sm rounded-lg border border-white/20 py-2 px-3 focus:ring-1 focus:ring-white/50 outline-none resize-y"
+                                />
+                                <div className="flex justify-end gap-2">
+                                    <button onClick={() => setEditingIndex(null)} className="text-xs text-teal-100 hover:text-white px-2 py-1">Cancel</button>
+                                    <button onClick={submitEdit} disabled={!editDraft.trim()} className="text-xs bg-white text-teal-700 font-medium rounded-lg px-3 py-1 disabled:opacity-50">Save & regenerate</button>
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.content}</p>
+                        )}
+                    </div>
+                    <div className="flex items-center justify-end gap-1 text-[10px] text-slate-500 mt-1 mr-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {onEditMessage && editingIndex !== idx && (
+                            <button
+                                onClick={() => startEditing(idx, msg.content)}
+                                disabled={isGenerating}
+                                className="p-1 hover:text-teal-400 disabled:opacity-50 transition-colors"
+                                title="Edit and regenerate (the current chat is kept in Previous Chats)"
+                            >
+                                <Pencil size={12} />
+                            </button>
+                        )}
+                        {onDeleteMessage && (
+                            <button
+                                onClick={() => onDeleteMessage(idx)}
+                                disabled={isGenerating}
+                                className="p-1 hover:text-red-400 disabled:opacity-50 transition-colors"
+                                title="Delete this message and its reply"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        )}
+                        <span>You</span>
                     </div>
-                    <div className="text-[10px] text-slate-500 mt-1 text-right mr-1 opacity-0 group-hover:opacity-100 transition-opacity">You</div>
                 </div>
             )}
 
@@ -167,46 +487,227 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                      </div>
                      <div className="flex-1 min-w-0">
                         
-                        {/* Message Content */}
+                        {/* Error Card */}
+                        {msg.metadata?.error ? (
+                            <div className="mb-3 max-w-xl bg-red-950/30 border border-red-500/30 rounded-2xl rounded-tl-sm px-4 py-3">
+                                <p className="flex items-center gap-2 text-sm font-bold text-red-300">
+                                    {ERROR_ICONS[msg.metadata.error.kind]} {msg.metadata.error.title}
+                                </p>
+                                <p className="text-xs text-slate-400 mt-1">{msg.metadata.error.hint}</p>
+                                {(msg.metadata.error.finishReason || msg.metadata.error.category) && (
+                                    <p className="text-[10px] text-slate-500 font-mono mt-1">
+                                        {[msg.metadata.error.finishReason, msg.metadata.error.category].filter(Boolean).join(' · ')}
+                                    </p>
+                                )}
+                                <details className="mt-1">
+                                    <summary className="text-[10px] text-slate-600 cursor-pointer select-none">Details</summary>
+                                    <p className="text-[10px] text-slate-500 font-mono break-words">{msg.metadata.error.message}</p>
+                                </details>
+                                <div className="flex gap-2 mt-3">
+                                    {onRetryMessage && msg.metadata.error.retryable && (
+                                        <button
+                                            onClick={() => onRetryMessage(idx)}
+                                            disabled={isGenerating}
+                                            className="flex items-center gap-1.5 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 rounded-lg border border-slate-700 py-1.5 px-3 transition-colors"
+                                        >
+                                            <RotateCcw size={12} /> Retry
+                                        </button>
+                                    )}
+                                    {REPHRASE_KINDS.includes(msg.metadata.error.kind) && msg.metadata.originalPrompt !== undefined && (
+                                        <button
+                                            onClick={() => rephrase(msg.metadata?.originalPrompt || '')}
+                                            className="flex items-center gap-1.5 text-xs bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg border border-slate-700 py-1.5 px-3 transition-colors"
+                                        >
+                                            <PencilLine size={12} /> Rephrase
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ) : (
+                        /* Message Content */
                         <div className="text-sm text-slate-300 mb-3 bg-slate-800/50 px-4 py-3 rounded-2xl rounded-tl-sm border border-slate-700/50 inline-block relative group/text">
                             {msg.content}
                             {msg.metadata?.liked && (
                                 <div className="absolute -top-2 -right-2 bg-green-500 text-white text-[10px] px-2 py-0.5 rounded-full shadow-lg border border-green-400 animate-in zoom-in">
-                                Learned
+                                Learned{msg.images && msg.images.length > 1 ? ` · #${likedIndex + 1}` : ''}
+                                </div>
+                            )}
+                            {msg.metadata?.disliked && (
+                                <div className="absolute -top-2 -right-2 bg-rose-500 text-white text-[10px] px-2 py-0.5 rounded-full shadow-lg border border-rose-400 animate-in zoom-in">
+                                Noted
                                 </div>
                             )}
                         </div>
+                        )}
+                        {onDeleteMessage && (
+                            <button
+                                onClick={() => onDeleteMessage(idx)}
+                                disabled={isGenerating}
+                                className="ml-2 align-top p-1 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 disabled:opacity-50 transition-opacity"
+                                title="Delete this reply"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        )}
+
+                        {/* Prompt under review */}
+                        {msg.metadata?.promptDraft && onConfirmPrompt && (
+                            <div className="mb-3">
+                                <PromptReview
+                                    options={msg.metadata.promptDraft}
+                                    isGenerating={isGenerating}
+                                    onGenerate={(prompt) => onConfirmPrompt(idx, prompt)}
+                                />
+                            </div>
+                        )}
+
+                        {/* Original vs. refined prompt */}
+                        {msg.metadata?.finalPrompt && (
+                            <details className="mb-3 max-w-xl text-xs">
+                                <summary className="cursor-pointer text-slate-500 hover:text-slate-300 select-none">Prompt details</summary>
+                                <div className="mt-2 space-y-2 bg-slate-900/60 border border-slate-800 rounded-xl p-3">
+                                    {[
+                                        { key: 'original', label: 'You asked', text: msg.metadata.originalPrompt || '' },
+                                        { key: 'final', label: 'Sent to model', text: msg.metadata.finalPrompt }
+                                    ].map(({ key, label, text }) => (
+                                        <div key={key}>
+                                            <div className="flex items-center justify-between">
+                                                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</span>
+                                                <button
+                                                    onClick={() => copyText(`${idx}-${key}`, text)}
+                                                    className="p-1 text-slate-500 hover:text-teal-400 transition-colors"
+                                                    title="Copy"
+                                                >
+                                                    {copiedKey === `${idx}-${key}` ? <Check size={12} /> : <Copy size={12} />}
+                                                </button>
+                                            </div>
+                                            <p className={`text-slate-300 leading-relaxed ${key === 'final' ? 'font-mono' : ''}`}>{text || <span className="italic text-slate-600">(image only)</span>}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </details>
+                        )}
+
+                        {/* Provenance and remix */}
+                        {provenance && (
+                            <GenerationInfo
+                                provenance={provenance}
+                                inputImages={inputImages}
+                                styles={styles}
+                                disabled={isGenerating}
+                                onRemix={onRemix && !inputsMissing ? (changes) => onRemix(idx, changes) : undefined}
+                            />
+                        )}
+
+                        {/* Variation Picker */}
+                        {msg.images && msg.images.length > 1 && (
+                            <div className="grid grid-cols-4 gap-2 max-w-xl mb-2">
+                                {msg.images.map((img, i) => (
+                                    <button
+                                        key={i}
+                                        onClick={() => onSelectVariant?.(idx, i)}
+                                        className={`relative rounded-lg overflow-hidden border-2 transition-all ${i === selectedIndex ? 'border-teal-400 shadow-lg shadow-teal-900/40' : 'border-slate-700 opacity-70 hover:opacity-100'}`}
+                                        title={`Variation ${i + 1}`}
+                                    >
+                                        <img src={img} alt={`Variation ${i + 1}`} className="w-full aspect-square object-cover" style={msg.metadata?.originalImages ? CHECKERBOARD_STYLE : undefined} />
+                                        <span className="absolute bottom-1 left-1 bg-slate-950/80 text-[10px] text-slate-200 px-1.5 rounded">{i + 1}</span>
+                                        {msg.metadata?.liked && i === likedIndex && (
+                                            <span className="absolute top-1 right-1 bg-green-500 text-white p-0.5 rounded" title="Liked variation"><ThumbsUp size={10} /></span>
+                                        )}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
 
                         {/* Generated Image Result */}
-                        {msg.images && msg.images.length > 0 && (
+                        {selectedImage && (
                             <div className="mt-2 relative w-full max-w-xl group/image">
                                 <div className="rounded-xl overflow-hidden shadow-2xl border border-slate-700 bg-slate-900 relative">
                                     <div className="absolute inset-0 bg-slate-800 animate-pulse -z-10"></div>
                                     <img 
-                                        src={msg.images[0]} 
+                                        src={selectedImage} 
                                         alt="Generated Result" 
-                                        className="w-full h-auto object-contain max-h-[600px] bg-[url('https://grainy-gradients.vercel.app/noise.svg')]" 
+                                        className={`w-full h-auto object-contain max-h-[600px] ${originalImage ? '' : "bg-[url('https://grainy-gradients.vercel.app/noise.svg')]"}`}
+                                        style={originalImage ? CHECKERBOARD_STYLE : undefined}
                                     />
                                     
                                     {/* Overlay Actions */}
                                     <div className="absolute inset-0 bg-gradient-to-t from-slate-950/90 via-transparent to-transparent opacity-0 group-hover/image:opacity-100 transition-all duration-300 flex items-end justify-between p-4">
                                         <div className="flex gap-2">
                                            {/* Teach / Like Button */}
-                                            {onLikeMessage && !msg.metadata?.liked && (
+                                            {onLikeMessage && !msg.metadata?.liked && !msg.metadata?.disliked && (
                                                 <button 
-                                                    onClick={() => onLikeMessage(idx)}
+                                                    onClick={() => onLikeMessage(idx, selectedIndex)}
                                                     className="bg-slate-800/80 hover:bg-green-600 text-white p-2 rounded-lg backdrop-blur-md transition-all border border-white/10"
                                                     title="I like this style (Teach AI)"
                                                 >
                                                     <ThumbsUp size={18} />
                                                 </button>
                                             )}
+                                            {onDislikeMessage && !msg.metadata?.liked && !msg.metadata?.disliked && (
+                                                <button 
+                                                    onClick={() => openDislike(idx)}
+                                                    className="bg-slate-800/80 hover:bg-rose-600 text-white p-2 rounded-lg backdrop-blur-md transition-all border border-white/10"
+                                                    title="Not for me (Teach AI what to avoid)"
+                                                >
+                                                    <ThumbsDown size={18} />
+                                                </button>
+                                            )}
+                                            {/* Manual cutout refinement (Background Remover) */}
+                                            {onUpdateImage && originalImage && (
+                                                <button 
+                                                    onClick={() => setRefineTarget({ index: idx, variantIndex: selectedIndex })}
+                                                    className="bg-slate-800/80 hover:bg-teal-600 text-white p-2 rounded-lg backdrop-blur-md transition-all border border-white/10"
+                                                    title="Refine edges"
+                                                >
+                                                    <Eraser size={18} />
+                                                </button>
+                                            )}
+                                            {onInpaint && (
+                                                <button 
+                                                    onClick={() => setInpaintImage(selectedImage)}
+                                                    disabled={isGenerating}
+                                                    className="bg-slate-800/80 hover:bg-teal-600 disabled:opacity-50 text-white p-2 rounded-lg backdrop-blur-md transition-all border border-white/10"
+                                                    title="Edit a region (inpaint)"
+                                                >
+                                                    <PenTool size={18} />
+                                                </button>
+                                            )}
+                                            {onApplyOverlay && supportsTextOverlay && (
+                                                <button 
+                                                    onClick={() => setOverlayTarget(
+                                                        msg.metadata?.overlay || { baseImage: selectedImage, layers: [] }
+                                                    )}
+                                                    className="bg-slate-800/80 hover:bg-teal-600 text-white p-2 rounded-lg backdrop-blur-md transition-all border border-white/10"
+                                                    title={msg.metadata?.overlay ? "Edit text layers" : "Add text layers"}
+                                                >
+                                                    <Type size={18} />
+                                                </button>
+                                            )}
+                                            {mode.tools.includes('vectorize') && (
+                                                <button 
+                                                    onClick={() => setVectorizeImage(selectedImage)}
+                                                    className="bg-slate-800/80 hover:bg-teal-600 text-white p-2 rounded-lg backdrop-blur-md transition-all border border-white/10"
+                                                    title="Vectorize to SVG"
+                                                >
+                                                    <Spline size={18} />
+                                                </button>
+                                            )}
+                                            {mode.tools.includes('icon-pack') && (
+                                                <button 
+                                                    onClick={() => setIconPackImage(selectedImage)}
+                                                    className="bg-slate-800/80 hover:bg-teal-600 text-white p-2 rounded-lg backdrop-blur-md transition-all border border-white/10"
+                                                    title="Create favicon & app icons"
+                                                >
+                                                    <AppWindow size={18} />
+                                                </button>
+                                            )}
                                             <button className="text-white/80 hover:text-white p-2 hover:bg-white/10 rounded-full transition-colors">
                                                 <Share2 size={20} />
                                             </button>
                                         </div>
                                         <button 
-                                            onClick={() => downloadImage(msg.images![0], 'pixfroge')}
+                                            onClick={() => setExportTarget({ image: selectedImage, recipe: buildRecipe(msg, currentMode) })}
                                             className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 text-white px-4 py-2 rounded-lg font-medium shadow-lg transition-all transform hover:scale-105 active:scale-95"
                                         >
                                             <Download size={16} />
@@ -214,6 +715,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                         </button>
                                     </div>
                                 </div>
+
+                                {/* Dislike reasons */}
+                                {dislikeTarget === idx && (
+                                    <div className="mt-2 bg-slate-900 border border-slate-700 rounded-xl p-3 animate-in fade-in duration-200">
+                                        <p className="text-xs text-slate-400 mb-2">What missed the mark?</p>
+                                        <div className="flex flex-wrap gap-1.5 mb-3">
+                                            {DISLIKE_REASONS.map(reason => (
+                                                <button
+                                                    key={reason}
+                                                    onClick={() => toggleDislikeReason(reason)}
+                                                    className={`text-xs px-2.5 py-1 rounded-full border transition-colors ${dislikeReasons.includes(reason) ? 'bg-rose-600 border-rose-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-rose-500/50'}`}
+                                                >
+                                                    {reason}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <div className="flex justify-end gap-2">
+                                            <button onClick={() => setDislikeTarget(null)} className="text-xs text-slate-400 hover:text-white px-2 py-1">Cancel</button>
+                                            <button onClick={submitDislike} className="text-xs bg-rose-600 hover:bg-rose-500 text-white rounded-lg px-3 py-1">Submit</button>
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         )}
                      </div>
@@ -228,7 +751,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               </div>
           )}
           </React.Fragment>
-        ))}
+          );
+        })}
 
         {isGenerating && (
              <div className="flex items-start max-w-3xl mx-auto w-full gap-4">
@@ -236,12 +760,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                      <div className="w-4 h-4 rounded-full border-2 border-teal-500 border-t-transparent animate-spin"></div>
                 </div>
                 <div className="bg-slate-800/30 rounded-2xl rounded-tl-sm px-5 py-3 border border-slate-700/50 flex items-center gap-3">
-                   <span className="text-sm text-slate-400">PixFroge is crafting your vision...</span>
+                   <span className="text-sm text-slate-400">{describeQueueStatus(queueStatus, now)}</span>
                    <div className="flex gap-1">
                      <div className="w-1.5 h-1.5 bg-teal-500 rounded-full animate-bounce" style={{animationDelay: '0ms'}}></div>
                      <div className="w-1.5 h-1.5 bg-teal-500 rounded-full animate-bounce" style={{animationDelay: '150ms'}}></div>
                      <div className="w-1.5 h-1.5 bg-teal-500 rounded-full animate-bounce" style={{animationDelay: '300ms'}}></div>
                    </div>
+                   {onCancelGeneration && (
+                     <button
+                       onClick={onCancelGeneration}
+                       className="ml-2 flex items-center gap-1 text-xs text-slate-400 hover:text-red-400 border border-slate-700 hover:border-red-500/50 rounded-lg px-2 py-1 transition-colors"
+                       title="Stop this generation"
+                     >
+                       <X size={12} /> Cancel
+                     </button>
+                   )}
                 </div>
              </div>
         )}
@@ -251,12 +784,52 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       {/* Input Area */}
       <div className="p-4 bg-slate-900 border-t border-slate-800 z-30">
         <div className="max-w-3xl mx-auto">
+            {/* Follow-up indicator */}
+            {followUpBase && (
+                <div className="flex items-center gap-2 mb-3 text-xs">
+                    <img src={followUpBase} alt="Previous result" className={`h-8 w-8 rounded-lg object-cover border border-slate-600 ${startFresh ? 'opacity-30 grayscale' : ''}`} />
+                    <span className="text-slate-400">{startFresh ? 'Starting fresh — the previous result is ignored' : 'Editing the previous result'}</span>
+                    <button
+                        onClick={() => setStartFresh(!startFresh)}
+                        className="flex items-center gap-1 text-teal-400 hover:text-teal-300 transition-colors"
+                    >
+                        {startFresh ? <><Link2 size={12} /> Build on it</> : <><Link2Off size={12} /> Start fresh</>}
+                    </button>
+                </div>
+            )}
+
+            {recipeNotice && (
+                <div className="flex items-center gap-2 mb-3 text-xs text-teal-300">
+                    <RotateCcw size={14} className="shrink-0" />
+                    <span className="flex-1">{recipeNotice}</span>
+                    <button onClick={() => setRecipeNotice(null)} className="text-slate-500 hover:text-white"><X size={12} /></button>
+                </div>
+            )}
+
+            {analysisError && (
+                <div className="flex items-center gap-2 mb-3 text-xs text-red-300">
+                    <AlertTriangle size={14} className="shrink-0" />
+                    <span className="flex-1">Couldn't analyze the style. {analysisError}</span>
+                    <button onClick={() => setAnalysisError(null)} className="text-slate-500 hover:text-white"><X size={12} /></button>
+                </div>
+            )}
+
             {/* Image Preview Strip */}
             {selectedImages.length > 0 && (
                 <div className="flex gap-2 mb-3 overflow-x-auto pb-2 scrollbar-hide">
                     {selectedImages.map((img, idx) => (
                     <div key={idx} className="relative shrink-0 group">
                         <img src={img} alt="Preview" className="h-16 w-16 rounded-xl object-cover border border-slate-600 shadow-md" />
+                        {onAnalyzeStyle && (
+                            <button
+                                onClick={() => handleAnalyzeStyle(img)}
+                                disabled={!!analyzingImage}
+                                className={`absolute bottom-1 left-1 bg-slate-900/80 text-slate-300 hover:text-teal-400 rounded-lg p-1 transition-opacity ${analyzingImage === img ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                                title="Analyze style and save it as a preset"
+                            >
+                                {analyzingImage === img ? <Loader2 size={12} className="animate-spin" /> : <Brush size={12} />}
+                            </button>
+                        )}
                         <button 
                             onClick={() => removeImage(idx)}
                             className="absolute -top-2 -right-2 bg-slate-800 text-slate-400 hover:text-red-400 rounded-full p-1 border border-slate-600 shadow-sm transition-colors"
@@ -290,18 +863,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 className="p-3 text-slate-400 hover:text-teal-400 hover:bg-slate-700/50 rounded-xl transition-all"
                 title="Upload Images (Max 3 recommended)"
             >
-                {currentMode === AppMode.BG_REMOVER ? <ImageIcon size={20} className="text-teal-400" /> : <Upload size={20} />}
+                {mode.tools.includes('cutout') ? <ImageIcon size={20} className="text-teal-400" /> : <Upload size={20} />}
             </button>
             
             <textarea
+                ref={textareaRef}
                 value={inputText}
                 onChange={(e) => setInputText(e.target.value)}
                 onKeyDown={handleKeyPress}
-                placeholder={
-                currentMode === AppMode.THUMBNAIL 
-                ? "Describe your thumbnail... (e.g., 'Surprised face on left, gaming screenshot bg')" 
-                : "Type a prompt to generate..."
-                }
+                placeholder={isLoading ? 'Loading your projects…' : mode.placeholder}
                 className="flex-1 bg-transparent border-none text-slate-200 placeholder-slate-500 resize-none py-3 px-1 focus:ring-0 text-sm max-h-32 min-h-[44px] scrollbar-hide"
                 rows={1}
                 style={{ height: 'auto', minHeight: '44px' }}
@@ -309,7 +879,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             
             <button 
                 onClick={handleSend}
-                disabled={isGenerating || (!inputText.trim() && selectedImages.length === 0)}
+                disabled={isGenerating || isLoading || (!inputText.trim() && selectedImages.length === 0)}
                 className="p-3 bg-teal-600 text-white rounded-xl hover:bg-teal-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg shadow-teal-900/20 active:scale-95"
             >
                 <Send size={20} />
@@ -320,6 +890,73 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </p>
         </div>
       </div>
+
+      {iconPackImage && (
+        <IconPackDialog image={iconPackImage} onClose={() => setIconPackImage(null)} />
+      )}
+
+      {vectorizeImage && (
+        <VectorizeDialog image={vectorizeImage} onClose={() => setVectorizeImage(null)} />
+      )}
+
+      {showStylePicker && (
+        <StylePicker
+          styles={styles}
+          selectedId={activeStyle?.id}
+          recommendedIds={mode.recommendedStyles}
+          modeName={mode.name}
+          initialDraft={analyzedStyle}
+          onSelect={(id) => setConfig(prev => ({ ...prev, style: id }))}
+          onSave={(style) => onSaveStyle?.(style)}
+          onDelete={(id) => onDeleteStyle?.(id)}
+          onClose={closeStylePicker}
+        />
+      )}
+
+      {exportTarget && (
+        <ExportDialog image={exportTarget.image} mode={currentMode} brandKit={activeBrandKit} recipe={exportTarget.recipe} onClose={() => setExportTarget(null)} />
+      )}
+
+      {overlayTarget && (
+        <TextOverlayEditor
+          overlay={overlayTarget}
+          brandKit={activeBrandKit}
+          onApply={(flattened, overlay) => {
+            onApplyOverlay?.(flattened, overlay);
+            setOverlayTarget(null);
+          }}
+          onClose={() => setOverlayTarget(null)}
+        />
+      )}
+
+      {inpaintImage && (
+        <InpaintEditor
+          image={inpaintImage}
+          onSubmit={(mask, instruction) => {
+            onInpaint?.(inpaintImage, mask, instruction);
+            setInpaintImage(null);
+          }}
+          onClose={() => setInpaintImage(null)}
+        />
+      )}
+
+      {refineTarget && (() => {
+        const target = messages[refineTarget.index];
+        const image = target?.images?.[refineTarget.variantIndex];
+        const original = target?.metadata?.originalImages?.[refineTarget.variantIndex];
+        if (!image || !original) return null;
+        return (
+          <BackgroundRefiner
+            image={image}
+            originalImage={original}
+            onApply={(url) => {
+              onUpdateImage?.(refineTarget.index, refineTarget.variantIndex, url);
+              setRefineTarget(null);
+            }}
+            onClose={() => setRefineTarget(null)}
+          />
+        );
+      })()}
     </div>
   );
 };
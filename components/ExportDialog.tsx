@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, Archive, Loader2 } from 'lucide-react';
+import { BrandKit, ImageRecipe, ModeId } from '../types';
+import {
+  ExportFormat,
+  ExportOptions,
+  FitMode,
+  downloadBlob,
+  exportAllPresets,
+  exportPreset,
+  getPresetsForMode,
+  isOriginalSize
+} from '../services/exportService';
+
+interface ExportDialogProps {
+  image: string;
+  mode: ModeId;
+  brandKit?: BrandKit | null;
+  recipe?: ImageRecipe; // Embedded in every exported file
+  onClose: () => void;
+}
+
+const selectClass = "bg-slate-800 text-slate-300 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none";
+
+const formatBytes = (bytes: number) =>
+  bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ image, mode, brandKit, recipe, onClose }) => {
+  const presets = getPresetsForMode(mode);
+  const [presetId, setPresetId] = useState(presets[0].id);
+  const [options, setOptions] = useState<ExportOptions>({ fit: 'crop', format: 'image/png', quality: 0.9 });
+  const [preview, setPreview] = useState<{ url: string; size: number; filename: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const preset = presets.find(p => p.id === presetId) || presets[0];
+
+  // Live preview with the real encoded size
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl = '';
+
+    exportPreset(image, preset, options, recipe)
+      .then(({ blob, filename }) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setPreview({ url: objectUrl, size: blob.size, filename });
+      })
+      .catch(e => console.error("Export preview failed", e));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [image, preset, options, recipe]);
+
+  const handleDownload = async () => {
+    setIsBusy(true);
+    try {
+      const { blob, filename } = await exportPreset(image, preset, options, recipe);
+      downloadBlob(blob, filename);
+    } catch (e) {
+      console.error("Export failed", e);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setIsBusy(true);
+    try {
+      const zip = await exportAllPresets(image, presets, options, recipe);
+      downloadBlob(zip, `pixfroge-export-${Date.now()}.zip`);
+    } catch (e) {
+      console.error("Zip export failed", e);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-3xl w-full max-h-full flex flex-col overflow-hidden">
+
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white">Export</h3>
+          <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4">
+          {/* Presets */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {presets.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setPresetId(p.id)}
+                className={`text-left rounded-xl border px-3 py-2 transition-all ${p.id === presetId ? 'bg-teal-900/30 border-teal-500/50 text-teal-200' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+              >
+                <span className="block text-sm font-medium">{p.label}</span>
+                <span className="block text-[10px] opacity-70">
+                  {isOriginalSize(p) ? 'No resize' : `${p.width}×${p.height}`}{p.maxBytes ? ` · max ${formatBytes(p.maxBytes)}` : ''}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Options */}
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+            {!isOriginalSize(preset) && (
+              <select value={options.fit} onChange={(e) => setOptions({ ...options, fit: e.target.value as FitMode })} className={selectClass}>
+                <option value="crop">Smart crop</option>
+                <option value="fit">Fit (no crop)</option>
+              </select>
+            )}
+            <select value={options.format} onChange={(e) => setOptions({ ...options, format: e.target.value as ExportFormat })} className={selectClass}>
+              <option value="image/png">PNG</option>
+              <option value="image/jpeg">JPEG</option>
+              <option value="image/webp">WebP</option>
+            </select>
+            {options.format !== 'image/png' && (
+              <label className="flex items-center gap-2">
+                Quality {Math.round(options.quality * 100)}
+                <input type="range" min={40} max={100} value={Math.round(options.quality * 100)}
+                  onChange={(e) => setOptions({ ...options, quality: Number(e.target.value) / 100 })}
+                  className="w-28 accent-teal-500" />
+              </label>
+            )}
+            {/* Letterbox in a brand color instead of the blurred fill */}
+            {options.fit === 'fit' && !isOriginalSize(preset) && brandKit && brandKit.palette.length > 0 && (
+              <div className="flex items-center gap-1.5">
+                Backdrop
+                <button
+                  onClick={() => setOptions({ ...options, backdrop: undefined })}
+                  className={`px-2 py-0.5 rounded border ${!options.backdrop ? 'border-teal-500 text-teal-300' : 'border-slate-700 hover:text-slate-200'}`}
+                >
+                  {options.format === 'image/png' ? 'None' : 'Blur'}
+                </button>
+                {brandKit.palette.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => setOptions({ ...options, backdrop: color })}
+                    title={color}
+                    className={`w-5 h-5 rounded border-2 ${options.backdrop === color ? 'border-teal-400' : 'border-slate-700'}`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="rounded-xl border border-slate-800 bg-slate-950 p-3 flex flex-col items-center gap-2">
+            {preview ? (
+              <>
+                <img src={preview.url} alt="Export preview" className="max-h-[40vh] max-w-full object-contain rounded-lg" />
+                <p className="text-[11px] text-slate-500">
+                  {preview.filename} · {formatBytes(preview.size)}
+                  {preset.maxBytes && preview.size > preset.maxBytes && <span className="text-red-400"> · over the {formatBytes(preset.maxBytes)} limit</span>}
+                </p>
+              </>
+            ) : (
+              <Loader2 size={24} className="animate-spin text-teal-400 my-10" />
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 p-4 border-t border-slate-800">
+          <button
+            onClick={handleDownloadAll}
+            disabled={isBusy}
+            className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 px-4 py-2 rounded-lg font-medium border border-slate-700 transition-all"
+          >
+            <Archive size={16} /> Download all sizes (.zip)
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={isBusy}
+            className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium shadow-lg transition-all"
+          >
+            {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
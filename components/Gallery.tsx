@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { X, Images, Search, ThumbsUp, CheckSquare, Square, Download, Loader2, ChevronLeft, ChevronRight, ArrowLeft } from 'lucide-react';
+import { AppMode, ArchivedSession, ChatMessage, GeneratedImage } from '../types';
+import { modeRegistry } from '../services/modeRegistry';
+import { collectGalleryImages, DEFAULT_GALLERY_FILTERS, downloadGalleryImages, filterGalleryImages, GalleryDateRange, GalleryFilters } from '../services/galleryService';
+import ImageCanvas, { CHECKERBOARD_STYLE } from './ImageCanvas';
+
+interface GalleryProps {
+  projectName?: string;
+  histories: Record<string, ChatMessage[]>;
+  archives: ArchivedSession[];
+  onClose: () => void;
+}
+
+const DATE_RANGES: Array<[GalleryDateRange, string]> = [
+  ['all', 'Any time'],
+  ['today', 'Today'],
+  ['week', 'Past 7 days'],
+  ['month', 'Past 30 days']
+];
+
+const selectClass = "bg-slate-800 text-slate-200 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none";
+const toolButtonClass = "flex items-center gap-1.5 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg border border-slate-700 py-1.5 px-3 transition-colors";
+
+const imageKey = (image: GeneratedImage) => image.id || image.url;
+
+const describeImage = (image: GeneratedImage) =>
+  `${modeRegistry.get(image.mode || AppMode.GENERAL).name} · ${new Date(image.timestamp).toLocaleString()}${image.sessionId ? ' · Archived chat' : ''}`;
+
+/**
+ * Every image in the project, across modes and archived chats.
+ */
+const Gallery: React.FC<GalleryProps> = ({ projectName, histories, archives, onClose }) => {
+  const [filters, setFilters] = useState<GalleryFilters>(DEFAULT_GALLERY_FILTERS);
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [viewingKey, setViewingKey] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState('');
+
+  const images = useMemo(() => collectGalleryImages(histories, archives), [histories, archives]);
+  const visible = useMemo(() => filterGalleryImages(images, filters), [images, filters]);
+  const modesInUse = useMemo(() => modeRegistry.list().filter(mode => images.some(image => image.mode === mode.id)), [images]);
+
+  const viewingIndex = visible.findIndex(image => imageKey(image) === viewingKey);
+  const viewing = viewingIndex >= 0 ? visible[viewingIndex] : null;
+  const selectedImages = visible.filter(image => selected.has(imageKey(image)));
+
+  const updateFilters = (changes: Partial<GalleryFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const toggleSelected = (image: GeneratedImage) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      const key = imageKey(image);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const download = async (targets: GeneratedImage[]) => {
+    setDownloading(true);
+    setError('');
+    try {
+      await downloadGalleryImages(targets);
+    } catch (err) {
+      console.error("Gallery download failed", err);
+      setError("Couldn't prepare the download. Try fewer images.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const step = (delta: number) => {
+    const next = visible[viewingIndex + delta];
+    if (next) setViewingKey(imageKey(next));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-6xl w-full h-[85vh] flex flex-col overflow-hidden">
+
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Images size={18} className="text-teal-400" /> Gallery
+            {projectName && <span className="text-sm font-normal text-slate-500 truncate">· {projectName}</span>}
+          </h3>
+          <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+            <X size={18} />
+          </button>
+        </div>
+
+        {viewing ? (
+          <ImageCanvas
+            image={viewing}
+            isLoading={false}
+            title={`${viewingIndex + 1} of ${visible.length}`}
+            subtitle={describeImage(viewing)}
+            onDownload={(image) => download([image])}
+            toolbar={
+              <>
+                <button onClick={() => setViewingKey(null)} className={toolButtonClass}>
+                  <ArrowLeft size={14} /> All images
+                </button>
+                <button onClick={() => step(-1)} disabled={viewingIndex === 0} className={toolButtonClass} title="Previous">
+                  <ChevronLeft size={14} />
+                </button>
+                <button onClick={() => step(1)} disabled={viewingIndex === visible.length - 1} className={toolButtonClass} title="Next">
+                  <ChevronRight size={14} />
+                </button>
+              </>
+            }
+          />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 p-3 border-b border-slate-800">
+              <div className="relative flex-1 min-w-[12rem]">
+                <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+                <input
+                  type="search"
+                  value={filters.query}
+                  onChange={(e) => updateFilters({ query: e.target.value })}
+                  placeholder="Search prompts"
+                  className={`${selectClass} w-full pl-8`}
+                />
+              </div>
+              <select value={filters.mode} onChange={(e) => updateFilters({ mode: e.target.value })} className={selectClass}>
+                <option value="all">All modes</option>
+                {modesInUse.map(mode => <option key={mode.id} value={mode.id}>{mode.name}</option>)}
+              </select>
+              <select value={filters.range} onChange={(e) => updateFilters({ range: e.target.value as GalleryDateRange })} className={selectClass}>
+                {DATE_RANGES.map(([range, label]) => <option key={range} value={range}>{label}</option>)}
+              </select>
+              <button
+                onClick={() => updateFilters({ likedOnly: !filters.likedOnly })}
+                className={`${toolButtonClass} ${filters.likedOnly ? 'border-teal-500/50 text-teal-300' : ''}`}
+              >
+                <ThumbsUp size={14} /> Liked
+              </button>
+              <div className="flex items-center gap-2 ml-auto">
+                {selecting ? (
+                  <>
+                    <button onClick={() => setSelected(new Set(visible.map(imageKey)))} className={toolButtonClass}>Select all</button>
+                    <button onClick={exitSelection} className={toolButtonClass}>Cancel</button>
+                    <button
+                      onClick={() => download(selectedImages)}
+                      disabled={selectedImages.length === 0 || downloading}
+                      className="flex items-center gap-1.5 text-xs bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg py-1.5 px-3 font-medium transition-colors"
+                    >
+                      {downloading ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Download ({selectedImages.length})
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={() => setSelecting(true)} disabled={visible.length === 0} className={toolButtonClass}>
+                    <CheckSquare size={14} /> Select
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto p-4">
+              <p className="text-xs text-slate-500 mb-3">
+                {error || `${visible.length} of ${images.length} image${images.length === 1 ? '' : 's'}`}
+              </p>
+
+              {images.length === 0 && (
+                <p className="text-sm text-slate-500 text-center mt-10">No images in this project yet. Generate something and it shows up here.</p>
+              )}
+              {images.length > 0 && visible.length === 0 && (
+                <p className="text-sm text-slate-500 text-center mt-10">Nothing matches these filters.</p>
+              )}
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
+                {visible.map(image => {
+                  const key = imageKey(image);
+                  const isSelected = selected.has(key);
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => (selecting ? toggleSelected(image) : setViewingKey(key))}
+                      title={image.prompt}
+                      className={`group relative aspect-square rounded-xl overflow-hidden border transition-colors ${isSelected ? 'border-teal-400 ring-2 ring-teal-400/40' : 'border-slate-800 hover:border-slate-600'}`}
+                      style={image.transparent ? CHECKERBOARD_STYLE : undefined}
+                    >
+                      <img src={image.url} alt={image.prompt} loading="lazy" className="w-full h-full object-contain bg-slate-950/40" />
+                      <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-slate-950/90 to-transparent p-2 text-left opacity-0 group-hover:opacity-100 transition-opacity">
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{modeRegistry.get(image.mode || AppMode.GENERAL).name}</p>
+                        <p className="text-[11px] text-slate-200 line-clamp-2">{image.prompt}</p>
+                      </div>
+                      {image.liked && <ThumbsUp size={14} className="absolute top-2 left-2 text-teal-300 drop-shadow" />}
+                      {selecting && (
+                        <span className="absolute top-2 right-2 text-teal-300 drop-shadow">
+                          {isSelected ? <CheckSquare size={18} /> : <Square size={18} />}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Gallery;
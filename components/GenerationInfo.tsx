@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Info, Shuffle, AlertTriangle, RotateCcw } from 'lucide-react';
+import { GenerationProvenance, GenerationSettings, StylePreset } from '../types';
+import { ASPECT_RATIOS } from '../services/modeRegistry';
+import { canRemix, formatLatency } from '../services/provenance';
+
+interface GenerationInfoProps {
+  provenance: GenerationProvenance;
+  inputImages?: string[]; // Resolved from `provenance.inputsFrom`
+  styles: StylePreset[];
+  disabled?: boolean; // A job is already running in this mode
+  onRemix?: (changes: Partial<GenerationSettings>) => void;
+}
+
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-widest";
+const chipClass = "text-xs rounded-lg border border-slate-700 bg-slate-800 hover:border-teal-500/50 hover:text-teal-300 text-slate-300 px-2 py-1 transition-colors disabled:opacity-50";
+
+/**
+ * "Info" and "Remix" popovers under a generated result.
+ */
+const GenerationInfo: React.FC<GenerationInfoProps> = ({ provenance, inputImages, styles, disabled = false, onRemix }) => {
+  const [open, setOpen] = useState<'info' | 'remix' | null>(null);
+  const remixable = !!onRemix && canRemix(provenance);
+
+  const toggle = (panel: 'info' | 'remix') => setOpen(prev => (prev === panel ? null : panel));
+
+  const remix = (changes: Partial<GenerationSettings> = {}) => {
+    onRemix?.(changes);
+    setOpen(null);
+  };
+
+  const rows: Array<[string, React.ReactNode]> = [
+    ['Model', provenance.model || 'Unknown'],
+    ['Provider', provenance.provider],
+    ['Aspect ratio', provenance.aspectRatio],
+    ['Quality', provenance.highQuality ? 'Pro' : 'Fast'],
+    ['Variations', provenance.variations],
+    ['Style', provenance.styleName || 'None'],
+    ['Retries', provenance.retries],
+    ['Latency', formatLatency(provenance.latencyMs)],
+    ['Created', new Date(provenance.createdAt).toLocaleString()]
+  ];
+  if (provenance.brandKit) rows.splice(6, 0, ['Brand kit', provenance.brandKit]);
+  if (provenance.operation === 'inpaint') rows.unshift(['Operation', 'Region edit']);
+
+  return (
+    <div className="relative mb-3 max-w-xl">
+      <div className="flex gap-3 text-xs">
+        <button onClick={() => toggle('info')} className={`flex items-center gap-1 transition-colors ${open === 'info' ? 'text-teal-400' : 'text-slate-500 hover:text-slate-300'}`}>
+          <Info size={12} /> Info
+        </button>
+        {remixable && (
+          <button
+            onClick={() => toggle('remix')}
+            disabled={disabled}
+            className={`flex items-center gap-1 transition-colors disabled:opacity-50 ${open === 'remix' ? 'text-teal-400' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            <Shuffle size={12} /> Remix
+          </button>
+        )}
+        {provenance.fallbackFrom && (
+          <span className="flex items-center gap-1 text-amber-400/80" title={`${provenance.fallbackFrom} failed, so ${provenance.model} was used`}>
+            <AlertTriangle size={12} /> Fallback model
+          </span>
+        )}
+      </div>
+
+      {open === 'info' && (
+        <div className="absolute z-10 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-3 text-xs animate-in fade-in duration-150">
+          <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1">
+            {rows.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-slate-500">{label}</dt>
+                <dd className="text-slate-200 font-mono break-words">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          {provenance.fallbackFrom && (
+            <p className="mt-2 text-[11px] text-amber-300/90">Requested {provenance.fallbackFrom}, which failed; {provenance.model} answered instead.</p>
+          )}
+          {inputImages && inputImages.length > 0 && (
+            <div className="mt-2">
+              <span className={labelClass}>Inputs</span>
+              <div className="flex gap-1.5 mt-1">
+                {inputImages.map((img, i) => (
+                  <img key={i} src={img} alt={`Input ${i + 1}`} className="w-10 h-10 rounded-md object-cover border border-slate-700" />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {open === 'remix' && remixable && (
+        <div className="absolute z-10 mt-2 w-80 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-3 space-y-3 animate-in fade-in duration-150">
+          <button
+            onClick={() => remix()}
+            disabled={disabled}
+            className="w-full flex items-center justify-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white text-xs rounded-lg py-2 font-medium transition-colors"
+          >
+            <RotateCcw size={12} /> Same settings
+          </button>
+          <p className="text-[11px] text-slate-500">Or change one thing:</p>
+          <div>
+            <span className={labelClass}>Aspect ratio</span>
+            <div className="flex flex-wrap gap-1.5 mt-1">
+              {ASPECT_RATIOS.filter(r => r !== provenance.aspectRatio).map(ratio => (
+                <button key={ratio} onClick={() => remix({ aspectRatio: ratio })} disabled={disabled} className={chipClass}>{ratio}</button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-4">
+            <div>
+              <span className={labelClass}>Quality</span>
+              <div className="mt-1">
+                <button onClick={() => remix({ highQuality: !provenance.highQuality })} disabled={disabled} className={chipClass}>
+                  {provenance.highQuality ? 'Fast' : 'Pro'}
+                </button>
+              </div>
+            </div>
+            <div>
+              <span className={labelClass}>Variations</span>
+              <div className="flex gap-1.5 mt-1">
+                {[1, 2, 3, 4].filter(n => n !== provenance.variations).map(n => (
+                  <button key={n} onClick={() => remix({ variations: n })} disabled={disabled} className={chipClass}>{n}</button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <label className="block">
+            <span className={labelClass}>Style (refines the prompt again)</span>
+            <select
+              value={provenance.style || ''}
+              onChange={(e) => remix({ style: e.target.value || undefined })}
+              disabled={disabled}
+              className="mt-1 w-full bg-slate-800 text-slate-200 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none"
+            >
+              <option value="">No style</option>
+              {styles.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationInfo;
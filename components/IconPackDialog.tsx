@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { X, Archive, Loader2, AppWindow, Copy } from 'lucide-react';
+import {
+  DEFAULT_ICON_PACK_OPTIONS,
+  IconPackOptions,
+  MASKABLE_SAFE_ZONE,
+  buildHeadSnippet,
+  buildIconPack,
+  buildWebManifest,
+  renderIcon
+} from '../services/iconPackService';
+import { downloadBlob } from '../services/exportService';
+import { CHECKERBOARD_STYLE } from './ImageCanvas';
+
+interface IconPackDialogProps {
+  image: string;
+  onClose: () => void;
+}
+
+interface Previews {
+  favicons: string[];
+  appleTouch: string;
+  maskable: string;
+}
+
+const IconPackDialog: React.FC<IconPackDialogProps> = ({ image, onClose }) => {
+  const [options, setOptions] = useState<IconPackOptions>(DEFAULT_ICON_PACK_OPTIONS);
+  const [previews, setPreviews] = useState<Previews | null>(null);
+  const [maskShape, setMaskShape] = useState<'circle' | 'squircle'>('circle');
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      Promise.all([16, 32, 48].map(size => renderIcon(image, size, 0))),
+      renderIcon(image, 180, 8, options.backgroundColor),
+      renderIcon(image, 192, options.maskablePadding, options.backgroundColor)
+    ]).then(([favicons, appleTouch, maskable]) => {
+      if (cancelled) return;
+      setPreviews({
+        favicons: favicons.map(c => c.toDataURL('image/png')),
+        appleTouch: appleTouch.toDataURL('image/png'),
+        maskable: maskable.toDataURL('image/png')
+      });
+    }).catch(e => console.error("Icon preview failed", e));
+
+    return () => { cancelled = true; };
+  }, [image, options.backgroundColor, options.maskablePadding]);
+
+  const handleDownload = async () => {
+    setIsBuilding(true);
+    try {
+      downloadBlob(await buildIconPack(image, options), 'pixfroge-icons.zip');
+    } catch (e) {
+      console.error("Icon pack failed", e);
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const snippet = `${buildHeadSnippet(options)}\n\n<!-- site.webmanifest -->\n${buildWebManifest(options)}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-4xl w-full max-h-full flex flex-col overflow-hidden">
+
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><AppWindow size={18} className="text-teal-400" /> Icon Pack</h3>
+          <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-5">
+          {/* Options */}
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <label className="flex items-center gap-2">
+              App name
+              <input value={options.appName} onChange={(e) => setOptions({ ...options, appName: e.target.value })}
+                className="bg-slate-800 text-slate-200 rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none" />
+            </label>
+            <label className="flex items-center gap-2">
+              Background
+              <input type="color" value={options.backgroundColor} onChange={(e) => setOptions({ ...options, backgroundColor: e.target.value })} className="w-8 h-6 bg-transparent" />
+            </label>
+            <label className="flex items-center gap-2">
+              Theme
+              <input type="color" value={options.themeColor} onChange={(e) => setOptions({ ...options, themeColor: e.target.value })} className="w-8 h-6 bg-transparent" />
+            </label>
+            <label className="flex items-center gap-2">
+              Maskable padding {options.maskablePadding}%
+              <input type="range" min={10} max={30} value={options.maskablePadding}
+                onChange={(e) => setOptions({ ...options, maskablePadding: Number(e.target.value) })}
+                className="w-24 accent-teal-500" />
+            </label>
+          </div>
+
+          {/* Previews */}
+          {previews ? (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="rounded-xl border border-slate-800 bg-slate-950 p-3">
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Favicons</p>
+                <div className="flex items-end gap-4" style={CHECKERBOARD_STYLE}>
+                  {previews.favicons.map((url, i) => (
+                    <img key={i} src={url} alt={`Favicon ${[16, 32, 48][i]}px`} style={{ width: [16, 32, 48][i], height: [16, 32, 48][i] }} />
+                  ))}
+                </div>
+              </div>
+
+              <div className="rounded-xl border border-slate-800 bg-slate-950 p-3">
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Apple Touch</p>
+                <img src={previews.appleTouch} alt="Apple touch icon" className="w-24 h-24 rounded-[22%]" />
+              </div>
+
+              <div className="rounded-xl border border-slate-800 bg-slate-950 p-3">
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Android Maskable</p>
+                  <select value={maskShape} onChange={(e) => setMaskShape(e.target.value as 'circle' | 'squircle')}
+                    className="bg-slate-800 text-slate-300 text-[10px] rounded border border-slate-700 px-1 outline-none">
+                    <option value="circle">Circle</option>
+                    <option value="squircle">Squircle</option>
+                  </select>
+                </div>
+                <div className="relative w-24 h-24">
+                  <img src={previews.maskable} alt="Maskable icon" className={`w-24 h-24 ${maskShape === 'circle' ? 'rounded-full' : 'rounded-[30%]'}`} />
+                  {/* Safe zone the artwork must stay within */}
+                  <div
+                    className="absolute rounded-full border border-dashed border-pink-500 pointer-events-none"
+                    style={{
+                      inset: `${((1 - MASKABLE_SAFE_ZONE) / 2) * 100}%`
+                    }}
+                  />
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-center py-10"><Loader2 size={28} className="animate-spin text-teal-400" /></div>
+          )}
+
+          {/* Snippet */}
+          <div className="rounded-xl border border-slate-800 bg-slate-950 relative">
+            <button
+              onClick={() => navigator.clipboard?.writeText(snippet)}
+              className="absolute top-2 right-2 p-1.5 text-slate-400 hover:text-teal-400 bg-slate-800 rounded-lg"
+              title="Copy"
+            >
+              <Copy size={14} />
+            </button>
+            <pre className="text-[11px] text-slate-400 p-3 overflow-x-auto whitespace-pre">{snippet}</pre>
+          </div>
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button
+            onClick={handleDownload}
+            disabled={isBuilding}
+            className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium shadow-lg transition-all"
+          >
+            {isBuilding ? <Loader2 size={16} className="animate-spin" /> : <Archive size={16} />} Download icon pack (.zip)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IconPackDialog;
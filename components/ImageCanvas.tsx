@@ -1,32 +1,102 @@
-import React from 'react';
-import { Download, Share, Maximize2, Loader2, Image as ImageIcon } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, ZoomIn, ZoomOut, Maximize2, Loader2, Image as ImageIcon } from 'lucide-react';
 import { GeneratedImage } from '../types';
 import AdUnit from './AdUnit';
 
+// Classic transparency grid, shown behind images that carry an alpha channel
+export const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundColor: '#334155',
+  backgroundImage: 'linear-gradient(45deg, #475569 25%, transparent 25%, transparent 75%, #475569 75%, #475569), linear-gradient(45deg, #475569 25%, transparent 25%, transparent 75%, #475569 75%, #475569)',
+  backgroundSize: '20px 20px',
+  backgroundPosition: '0 0, 10px 10px'
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
 interface ImageCanvasProps {
   image: GeneratedImage | null;
   isLoading: boolean;
   loadingStep?: string;
+  title?: string;
+  subtitle?: string; // Shown in the prompt overlay, e.g. mode and date
+  toolbar?: React.ReactNode; // Extra header controls, before the zoom buttons
+  onDownload?: (image: GeneratedImage) => void; // Defaults to saving the raw URL
 }
 
-const ImageCanvas: React.FC<ImageCanvasProps> = ({ image, isLoading, loadingStep }) => {
+const ImageCanvas: React.FC<ImageCanvasProps> = ({ image, isLoading, loadingStep, title = 'Canvas', subtitle, toolbar, onDownload }) => {
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const dragRef = useRef<{ x: number; y: number; originX: number; originY: number } | null>(null);
+
+  // Every new image starts fitted to the frame
+  useEffect(() => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  }, [image?.url]);
+
+  const applyZoom = (next: number) => {
+    const clamped = clampZoom(next);
+    setZoom(clamped);
+    if (clamped === MIN_ZOOM) setOffset({ x: 0, y: 0 });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!image) return;
+    applyZoom(e.deltaY < 0 ? zoom * ZOOM_STEP : zoom / ZOOM_STEP);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (zoom === MIN_ZOOM) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, originX: offset.x, originY: offset.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    // Offsets are applied before scaling, so divide to keep the image under the cursor
+    setOffset({ x: drag.originX + (e.clientX - drag.x) / zoom, y: drag.originY + (e.clientY - drag.y) / zoom });
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
   const handleDownload = () => {
     if (!image) return;
+    if (onDownload) {
+      onDownload(image);
+      return;
+    }
     const link = document.createElement('a');
     link.href = image.url;
-    link.download = `vividra-${Date.now()}.png`;
+    link.download = `pixfroge-${Date.now()}.png`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const zoomButtonClass = "p-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed text-slate-200 rounded-lg transition-colors border border-slate-700";
+
   return (
     <div className="flex-1 bg-slate-950 p-6 flex flex-col h-full overflow-hidden relative">
       {/* Header / Toolbar */}
-      <div className="flex justify-between items-center mb-6">
-        <h2 className="text-xl font-semibold text-slate-200">Canvas</h2>
-        <div className="flex gap-2">
-          <button 
+      <div className="flex justify-between items-center gap-3 mb-6">
+        <h2 className="text-xl font-semibold text-slate-200 truncate">{title}</h2>
+        <div className="flex items-center gap-2">
+          {toolbar}
+          <button disabled={!image || zoom >= MAX_ZOOM} onClick={() => applyZoom(zoom * ZOOM_STEP)} className={zoomButtonClass} title="Zoom in">
+            <ZoomIn size={16} />
+          </button>
+          <button disabled={!image || zoom <= MIN_ZOOM} onClick={() => applyZoom(zoom / ZOOM_STEP)} className={zoomButtonClass} title="Zoom out">
+            <ZoomOut size={16} />
+          </button>
+          <button disabled={!image || zoom === MIN_ZOOM} onClick={() => applyZoom(MIN_ZOOM)} className={zoomButtonClass} title="Fit to frame">
+            <Maximize2 size={16} />
+          </button>
+          <button
             disabled={!image}
             onClick={handleDownload}
             className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed text-slate-200 rounded-lg text-sm font-medium transition-colors border border-slate-700"
@@ -39,7 +109,7 @@ const ImageCanvas: React.FC<ImageCanvasProps> = ({ image, isLoading, loadingStep
 
       {/* Main Display Area */}
       <div className="flex-1 bg-slate-900/50 border-2 border-dashed border-slate-800 rounded-2xl flex items-center justify-center relative overflow-hidden group">
-        
+
         {isLoading ? (
           <div className="flex flex-col items-center gap-4 text-indigo-400 animate-pulse">
              <div className="relative">
@@ -51,23 +121,34 @@ const ImageCanvas: React.FC<ImageCanvasProps> = ({ image, isLoading, loadingStep
              </p>
           </div>
         ) : image ? (
-          <div className="relative w-full h-full flex items-center justify-center bg-slate-900">
+          <div
+            className={`relative w-full h-full flex items-center justify-center bg-slate-900 select-none ${zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            onWheel={handleWheel}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+          >
              {/* Pattern background to show transparency if applicable */}
-             <div className="absolute inset-0 opacity-20" 
-                style={{ 
-                  backgroundImage: 'radial-gradient(#475569 1px, transparent 1px)', 
-                  backgroundSize: '20px 20px' 
-                }}>
-             </div>
-             
-             <img 
-              src={image.url} 
-              alt="Generated Content" 
-              className="max-w-full max-h-full object-contain shadow-2xl rounded-lg relative z-10"
+             <div className={`absolute inset-0 ${image.transparent ? 'opacity-60' : 'opacity-20'}`} style={CHECKERBOARD_STYLE}></div>
+
+             <img
+              src={image.url}
+              alt="Generated Content"
+              draggable={false}
+              style={{ transform: `scale(${zoom}) translate(${offset.x}px, ${offset.y}px)` }}
+              className="max-w-full max-h-full object-contain shadow-2xl rounded-lg relative z-10 transition-transform duration-75"
             />
-            
+
+            {zoom > MIN_ZOOM && (
+              <span className="absolute top-3 right-3 z-20 text-xs font-mono bg-slate-950/80 text-slate-300 rounded-md px-2 py-1">
+                {Math.round(zoom * 100)}%
+              </span>
+            )}
+
             {/* Prompt Overlay on Hover */}
             <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-slate-950 via-slate-950/80 to-transparent p-6 translate-y-full group-hover:translate-y-0 transition-transform duration-300 z-20">
+              {subtitle && <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">{subtitle}</p>}
               <p className="text-slate-300 text-sm line-clamp-3 font-mono leading-relaxed border-l-2 border-indigo-500 pl-3">
                 {image.prompt}
               </p>
@@ -92,4 +173,4 @@ const ImageCanvas: React.FC<ImageCanvasProps> = ({ image, isLoading, loadingStep
   );
 };
 
-export default ImageCanvas;
\ No newline at end of file
+export default ImageCanvas;
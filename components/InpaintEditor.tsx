@@ -0,0 +1,206 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Brush, Eraser, Lasso, Trash2, Wand2 } from 'lucide-react';
+import { loadImage } from '../services/imageUtils';
+import { maskToImage } from '../services/inpainting';
+
+interface InpaintEditorProps {
+  image: string;
+  onSubmit: (mask: string, instruction: string) => void;
+  onClose: () => void;
+}
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+const MASK_COLOR = 'rgba(239, 68, 68, 1)';
+
+const InpaintEditor: React.FC<InpaintEditorProps> = ({ image, onSubmit, onClose }) => {
+  const imageCanvasRef = useRef<HTMLCanvasElement>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawing = useRef(false);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const lassoPoints = useRef<Array<{ x: number; y: number }>>([]);
+
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(32);
+  const [instruction, setInstruction] = useState('');
+  const [hasMask, setHasMask] = useState(false);
+  const [lassoPreview, setLassoPreview] = useState('');
+
+  useEffect(() => {
+    loadImage(image).then(img => {
+      [imageCanvasRef.current, maskCanvasRef.current].forEach(canvas => {
+        if (!canvas) return;
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+      });
+      imageCanvasRef.current?.getContext('2d')?.drawImage(img, 0, 0);
+    });
+  }, [image]);
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width
+    };
+  };
+
+  const strokeTo = (x: number, y: number, scale: number) => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPoint.current || { x, y };
+
+    ctx.save();
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    ctx.restore();
+
+    lastPoint.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    isDrawing.current = true;
+    lastPoint.current = null;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toImagePoint(e);
+
+    if (tool === 'lasso') {
+      lassoPoints.current = [{ x, y }];
+    } else {
+      strokeTo(x, y, scale);
+      if (tool === 'brush') setHasMask(true);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    const { x, y, scale } = toImagePoint(e);
+
+    if (tool === 'lasso') {
+      lassoPoints.current.push({ x, y });
+      setLassoPreview(lassoPoints.current.map(p => `${p.x},${p.y}`).join(' '));
+    } else {
+      strokeTo(x, y, scale);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawing.current) return;
+    isDrawing.current = false;
+    lastPoint.current = null;
+
+    if (tool === 'lasso' && lassoPoints.current.length > 2) {
+      const ctx = maskCanvasRef.current?.getContext('2d');
+      if (ctx) {
+        ctx.fillStyle = MASK_COLOR;
+        ctx.beginPath();
+        lassoPoints.current.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.closePath();
+        ctx.fill();
+        setHasMask(true);
+      }
+    }
+    lassoPoints.current = [];
+    setLassoPreview('');
+  };
+
+  const clearMask = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleSubmit = () => {
+    if (!maskCanvasRef.current || !hasMask || !instruction.trim()) return;
+    onSubmit(maskToImage(maskCanvasRef.current), instruction);
+  };
+
+  const toolButton = (id: MaskTool, label: string, icon: React.ReactNode) => (
+    <button
+      onClick={() => setTool(id)}
+      className={`flex items-center gap-1.5 text-xs rounded-lg border py-1.5 px-3 transition-all ${tool === id ? 'bg-teal-900/30 border-teal-500/50 text-teal-300' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+    >
+      {icon} {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-4xl w-full max-h-full flex flex-col overflow-hidden">
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white">Edit Region</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            {toolButton('brush', 'Brush', <Brush size={14} />)}
+            {toolButton('eraser', 'Eraser', <Eraser size={14} />)}
+            {toolButton('lasso', 'Lasso', <Lasso size={14} />)}
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              Size
+              <input type="range" min={4} max={160} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-24 accent-teal-500" />
+            </label>
+            <button onClick={clearMask} className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors" title="Clear mask">
+              <Trash2 size={16} />
+            </button>
+            <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Image + Mask */}
+        <div className="flex-1 min-h-0 overflow-auto p-4 flex items-center justify-center bg-slate-950">
+          <div className="relative inline-block">
+            <canvas ref={imageCanvasRef} className="block max-w-full max-h-[60vh] rounded-lg" />
+            <canvas
+              ref={maskCanvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+            />
+            {lassoPreview && maskCanvasRef.current && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${maskCanvasRef.current.width} ${maskCanvasRef.current.height}`}
+                preserveAspectRatio="none"
+              >
+                <polyline points={lassoPreview} fill="rgba(239,68,68,0.2)" stroke="#f87171" strokeWidth={2} vectorEffect="non-scaling-stroke" strokeDasharray="6 4" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Instruction */}
+        <div className="flex items-center gap-2 p-4 border-t border-slate-800">
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+            placeholder={hasMask ? "What should go in the painted area?" : "Paint over the area you want to change first"}
+            className="flex-1 bg-slate-800 text-slate-200 placeholder-slate-500 text-sm rounded-xl border border-slate-700 py-2.5 px-3 focus:ring-2 focus:ring-teal-500/50 outline-none"
+          />
+          <button
+            onClick={handleSubmit}
+            disabled={!hasMask || !instruction.trim()}
+            className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2.5 rounded-xl font-medium shadow-lg transition-all"
+          >
+            <Wand2 size={16} /> Generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InpaintEditor;
@@ -0,0 +1,177 @@
+import React, { useState, useRef } from 'react';
+import { X, Brain, Pin, PinOff, Pencil, Trash2, Check, Download, Upload, ThumbsDown } from 'lucide-react';
+import { LearnedPattern, ModeId } from '../types';
+import { InvalidMemoryFileError, memoryService } from '../services/memoryService';
+import { modeRegistry } from '../services/modeRegistry';
+import { downloadBlob } from '../services/exportService';
+
+interface MemoryPanelProps {
+  initialMode: ModeId;
+  onClose: () => void;
+}
+
+const textareaClass = "w-full bg-slate-800 text-slate-200 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none resize-none";
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ initialMode, onClose }) => {
+  const [activeMode, setActiveMode] = useState<ModeId>(initialMode);
+  const [patterns, setPatterns] = useState<LearnedPattern[]>(() => memoryService.list());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ userInput: '', refinedPrompt: '' });
+  const [notice, setNotice] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => setPatterns(memoryService.list());
+
+  const modePatterns = patterns
+    .filter(p => p.mode === activeMode)
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+
+  const startEdit = (pattern: LearnedPattern) => {
+    setEditingId(pattern.id);
+    setDraft({ userInput: pattern.userInput, refinedPrompt: pattern.refinedPrompt });
+  };
+
+  const saveEdit = () => {
+    if (!editingId) return;
+    memoryService.update(editingId, draft);
+    setEditingId(null);
+    refresh();
+  };
+
+  const handleClear = () => {
+    if (window.confirm(`Forget everything learned for ${modeRegistry.get(activeMode).name}? Pinned patterns are kept.`)) {
+      memoryService.clear(activeMode);
+      refresh();
+    }
+  };
+
+  const handleExport = () => {
+    const json = memoryService.exportBrain();
+    if (json === null) {
+      setNotice("Couldn't read the saved memory in this browser, so there's nothing to export.");
+      return;
+    }
+    downloadBlob(new Blob([json], { type: 'application/json' }), `pixfrog-memory-${Date.now()}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = memoryService.importBrain(await file.text());
+      setNotice(`Imported ${added} new pattern${added === 1 ? '' : 's'}.`);
+      refresh();
+    } catch (err) {
+      console.error("Memory import failed", err);
+      setNotice(err instanceof InvalidMemoryFileError
+        ? "That file isn't a valid PixFrog memory export."
+        : "Couldn't save the imported patterns to this browser's storage.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-4xl w-full h-[80vh] flex flex-col overflow-hidden">
+
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Brain size={18} className="text-teal-400" /> Learned Styles</h3>
+          <div className="flex items-center gap-2">
+            <input type="file" accept="application/json,.json" ref={fileInputRef} onChange={handleImport} className="hidden" />
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 py-1.5 px-3 transition-colors">
+              <Upload size={14} /> Import
+            </button>
+            <button onClick={handleExport} className="flex items-center gap-1.5 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 py-1.5 px-3 transition-colors">
+              <Download size={14} /> Export
+            </button>
+            <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          {/* Mode list */}
+          <ul className="w-48 shrink-0 border-r border-slate-800 p-2 space-y-1 overflow-y-auto">
+            {modeRegistry.list().map(mode => {
+              const count = patterns.filter(p => p.mode === mode.id).length;
+              return (
+                <li key={mode.id}>
+                  <button
+                    onClick={() => setActiveMode(mode.id)}
+                    className={`w-full flex items-center justify-between text-left text-xs px-3 py-2 rounded-lg transition-colors ${mode.id === activeMode ? 'bg-teal-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+                  >
+                    <span className="truncate">{mode.name}</span>
+                    <span className="opacity-70">{count}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {/* Patterns */}
+          <div className="flex-1 min-w-0 overflow-y-auto p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-slate-500">{notice || `${modePatterns.length} learned pattern${modePatterns.length === 1 ? '' : 's'}`}</p>
+              {modePatterns.length > 0 && (
+                <button onClick={handleClear} className="text-xs text-slate-500 hover:text-red-400 transition-colors">Clear mode</button>
+              )}
+            </div>
+
+            {modePatterns.length === 0 && (
+              <p className="text-sm text-slate-500 text-center mt-10">Nothing learned yet. Use the 👍 or 👎 buttons on a result.</p>
+            )}
+
+            {modePatterns.map(pattern => (
+              <div key={pattern.id} className={`rounded-xl border p-3 ${pattern.pinned ? 'border-teal-500/40 bg-teal-900/10' : 'border-slate-800 bg-slate-950'}`}>
+                {editingId === pattern.id ? (
+                  <div className="space-y-2">
+                    <textarea value={draft.userInput} onChange={(e) => setDraft({ ...draft, userInput: e.target.value })} rows={2} className={textareaClass} />
+                    <textarea value={draft.refinedPrompt} onChange={(e) => setDraft({ ...draft, refinedPrompt: e.target.value })} rows={4} className={textareaClass} />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setEditingId(null)} className="text-xs text-slate-400 hover:text-white px-2 py-1">Cancel</button>
+                      <button onClick={saveEdit} className="flex items-center gap-1 text-xs bg-teal-600 hover:bg-teal-500 text-white rounded-lg px-3 py-1"><Check size={12} /> Save</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-3">
+                    <div className="flex-1 min-w-0 space-y-1.5">
+                      {pattern.sentiment === 'dislike' && (
+                        <p className="flex flex-wrap items-center gap-1 text-[10px] text-rose-400">
+                          <ThumbsDown size={10} /> Avoid
+                          {pattern.reasons?.map(reason => (
+                            <span key={reason} className="bg-rose-900/30 border border-rose-500/30 rounded-full px-1.5">{reason}</span>
+                          ))}
+                        </p>
+                      )}
+                      <p className="text-sm text-slate-200">{pattern.userInput}</p>
+                      <p className="text-xs text-slate-500 font-mono leading-relaxed border-l-2 border-slate-700 pl-2">{pattern.refinedPrompt}</p>
+                      <p className="text-[10px] text-slate-600">{new Date(pattern.timestamp).toLocaleString()}</p>
+                    </div>
+                    <div className="flex flex-col gap-1">
+                      <button
+                        onClick={() => { memoryService.update(pattern.id, { pinned: !pattern.pinned }); refresh(); }}
+                        className={`p-1.5 rounded-lg transition-colors ${pattern.pinned ? 'text-teal-400' : 'text-slate-500 hover:text-teal-400'}`}
+                        title={pattern.pinned ? 'Unpin' : 'Pin (always recalled, never evicted)'}
+                      >
+                        {pattern.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                      </button>
+                      <button onClick={() => startEdit(pattern)} className="p-1.5 text-slate-500 hover:text-white rounded-lg transition-colors" title="Edit">
+                        <Pencil size={14} />
+                      </button>
+                      <button onClick={() => { memoryService.remove(pattern.id); refresh(); }} className="p-1.5 text-slate-500 hover:text-red-400 rounded-lg transition-colors" title="Delete">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryPanel;
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Check, Copy, LayoutGrid } from 'lucide-react';
+import { AspectRatio, ModeDefinition, ModeId, ModeTool } from '../types';
+import { ASPECT_RATIOS, modeRegistry } from '../services/modeRegistry';
+import { BUILT_IN_STYLES } from '../services/styleService';
+import ModeIcon, { MODE_ICONS } from './ModeIcon';
+
+interface ModeEditorProps {
+  modes: ModeDefinition[];
+  initialModeId: ModeId;
+  runningModes: ModeId[];
+  onSave: (mode: ModeDefinition) => void;
+  onDelete: (id: ModeId) => void;
+  onClose: () => void;
+}
+
+const TOOL_LABELS: Record<ModeTool, string> = {
+  'text-layers': 'Text layers editor',
+  'cutout': 'Transparent cutout (removes the background)',
+  'vectorize': 'Vectorize to SVG',
+  'icon-pack': 'Favicon & app icon pack'
+};
+
+const inputClass = "w-full bg-slate-800 text-slate-200 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none";
+const labelClass = "block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1.5";
+
+const ModeEditor: React.FC<ModeEditorProps> = ({ modes, initialModeId, runningModes, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<ModeDefinition>(() => {
+    const initial = modes.find(m => m.id === initialModeId);
+    return initial?.custom ? initial : modeRegistry.createCustom('Custom Mode');
+  });
+  // Tips are edited one per line
+  const [tipsInput, setTipsInput] = useState(draft.tips.join('\n'));
+
+  const isSaved = modes.some(m => m.id === draft.id);
+  const readOnly = !draft.custom;
+
+  const edit = (changes: Partial<ModeDefinition>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const openMode = (mode: ModeDefinition) => {
+    setDraft(mode);
+    setTipsInput(mode.tips.join('\n'));
+  };
+
+  const toggleTool = (tool: ModeTool) => {
+    edit({ tools: draft.tools.includes(tool) ? draft.tools.filter(t => t !== tool) : [...draft.tools, tool] });
+  };
+
+  const toggleStyle = (id: string) => {
+    edit({ recommendedStyles: draft.recommendedStyles.includes(id) ? draft.recommendedStyles.filter(s => s !== id) : [...draft.recommendedStyles, id] });
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim() || 'Custom Mode';
+    const mode: ModeDefinition = {
+      ...draft,
+      name,
+      label: draft.label.trim() || name,
+      tips: tipsInput.split('\n').map(t => t.trim()).filter(Boolean)
+    };
+    onSave(mode);
+    setDraft(mode);
+  };
+
+  const handleDelete = () => {
+    if (!isSaved || readOnly) return;
+    if (!window.confirm(`Delete the "${draft.name}" mode? Its chats in every project and its learned styles are deleted too.`)) return;
+    onDelete(draft.id);
+    openMode(modeRegistry.createCustom('Custom Mode'));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-4xl w-full h-[85vh] flex flex-col overflow-hidden">
+
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><LayoutGrid size={18} className="text-teal-400" /> Modes</h3>
+          <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+          {/* Mode list */}
+          <div className="md:w-56 border-b md:border-b-0 md:border-r border-slate-800 p-3 space-y-1 overflow-y-auto">
+            <button onClick={() => openMode(modeRegistry.createCustom('Custom Mode'))} className="w-full flex items-center gap-2 text-xs text-teal-400 hover:bg-slate-800 rounded-lg px-2 py-1.5 mb-2">
+              <Plus size={14} /> New mode
+            </button>
+            {modes.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => openMode(mode)}
+                className={`w-full flex items-center gap-2 text-left text-xs px-2 py-1.5 rounded-lg transition-colors ${mode.id === draft.id ? 'bg-slate-800 text-white' : 'text-slate-400 hover:bg-slate-800/50'}`}
+              >
+                <ModeIcon icon={mode.icon} size={14} />
+                <span className="truncate flex-1">{mode.name}</span>
+                {!mode.custom && <span className="text-[9px] text-slate-600 uppercase">Built-in</span>}
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <fieldset disabled={readOnly} className="flex-1 overflow-y-auto p-4 space-y-4 min-w-0">
+            {readOnly && (
+              <p className="text-xs text-slate-400 bg-slate-800/60 border border-slate-700 rounded-lg px-3 py-2">
+                Built-in modes can't be changed. Duplicate this one to start a custom mode from its settings.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label>
+                <span className={labelClass}>Name</span>
+                <input value={draft.name} onChange={(e) => edit({ name: e.target.value })} placeholder="Podcast Cover" className={inputClass} />
+              </label>
+              <label>
+                <span className={labelClass}>Sidebar label</span>
+                <input value={draft.label} onChange={(e) => edit({ label: e.target.value })} placeholder="Podcast" className={inputClass} />
+              </label>
+            </div>
+
+            <div>
+              <span className={labelClass}>Icon</span>
+              <div className="flex flex-wrap gap-1.5">
+                {Object.keys(MODE_ICONS).map(icon => (
+                  <button
+                    key={icon}
+                    onClick={() => edit({ icon })}
+                    className={`p-2 rounded-lg border transition-colors ${draft.icon === icon ? 'bg-teal-900/30 border-teal-500/50 text-teal-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                    title={icon}
+                  >
+                    <ModeIcon icon={icon} size={16} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+              <label>
+                <span className={labelClass}>Default aspect ratio</span>
+                <select value={draft.aspectRatio} onChange={(e) => edit({ aspectRatio: e.target.value as AspectRatio })} className={inputClass}>
+                  {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-400 pb-1.5">
+                <input type="checkbox" checked={draft.highQuality} onChange={(e) => edit({ highQuality: e.target.checked })} className="accent-teal-500" />
+                Pro quality by default
+              </label>
+            </div>
+
+            <label className="block">
+              <span className={labelClass}>Strategy</span>
+              <textarea
+                value={draft.strategy}
+                onChange={(e) => edit({ strategy: e.target.value })}
+                rows={3}
+                placeholder="Square cover art, bold readable title area, works as a tiny thumbnail."
+                className={`${inputClass} resize-y`}
+              />
+              <span className="block text-[11px] text-slate-500 mt-1">Tells prompt refinement what this mode's images should look like.</span>
+            </label>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label>
+                <span className={labelClass}>Fallback prompt</span>
+                <input value={draft.fallbackPrompt} onChange={(e) => edit({ fallbackPrompt: e.target.value })} placeholder="Podcast cover art." className={inputClass} />
+              </label>
+              <label>
+                <span className={labelClass}>Input placeholder</span>
+                <input value={draft.placeholder} onChange={(e) => edit({ placeholder: e.target.value })} placeholder="Describe your episode..." className={inputClass} />
+              </label>
+            </div>
+
+            <label className="block">
+              <span className={labelClass}>Empty-chat tips (one per line)</span>
+              <textarea value={tipsInput} onChange={(e) => setTipsInput(e.target.value)} rows={2} className={`${inputClass} resize-y`} />
+            </label>
+
+            <div>
+              <span className={labelClass}>Tools</span>
+              <div className="space-y-1.5">
+                {(Object.keys(TOOL_LABELS) as ModeTool[]).map(tool => (
+                  <label key={tool} className="flex items-center gap-2 text-xs text-slate-400">
+                    <input type="checkbox" checked={draft.tools.includes(tool)} onChange={() => toggleTool(tool)} className="accent-teal-500" />
+                    {TOOL_LABELS[tool]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <span className={labelClass}>Recommended styles</span>
+              <div className="flex flex-wrap gap-1.5">
+                {BUILT_IN_STYLES.map(style => (
+                  <button
+                    key={style.id}
+                    onClick={() => toggleStyle(style.id)}
+                    className={`text-xs rounded-lg border px-2.5 py-1 transition-colors ${draft.recommendedStyles.includes(style.id) ? 'bg-teal-900/30 border-teal-500/50 text-teal-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                  >
+                    {style.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 p-4 border-t border-slate-800">
+          <button
+            onClick={handleDelete}
+            disabled={!isSaved || readOnly || runningModes.includes(draft.id)}
+            className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-red-400 disabled:opacity-40"
+          >
+            <Trash2 size={14} /> Delete
+          </button>
+          {readOnly ? (
+            <button
+              onClick={() => openMode(modeRegistry.createCustom(`${draft.name} (copy)`, draft))}
+              className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 text-white text-sm px-4 py-2 rounded-lg font-medium shadow-lg transition-all"
+            >
+              <Copy size={16} /> Duplicate
+            </button>
+          ) : (
+            <button onClick={handleSave} className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 text-white text-sm px-4 py-2 rounded-lg font-medium shadow-lg transition-all">
+              <Check size={16} /> Save
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModeEditor;
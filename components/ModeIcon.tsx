@@ -0,0 +1,53 @@
+import React from 'react';
+import {
+  LucideIcon,
+  Sparkles,
+  Youtube,
+  Hexagon,
+  Scissors,
+  Share2,
+  Image as ImageIcon,
+  User,
+  Mic,
+  ShoppingBag,
+  Megaphone,
+  BookOpen,
+  Music,
+  Camera,
+  Gift,
+  Shirt,
+  Newspaper,
+  Gamepad2,
+  Presentation,
+  Utensils
+} from 'lucide-react';
+
+// Icons a mode can pick, keyed by the name stored in ModeDefinition.icon
+export const MODE_ICONS: Record<string, LucideIcon> = {
+  sparkles: Sparkles,
+  youtube: Youtube,
+  hexagon: Hexagon,
+  scissors: Scissors,
+  share: Share2,
+  image: ImageIcon,
+  user: User,
+  mic: Mic,
+  shopping: ShoppingBag,
+  megaphone: Megaphone,
+  book: BookOpen,
+  music: Music,
+  camera: Camera,
+  gift: Gift,
+  shirt: Shirt,
+  news: Newspaper,
+  gaming: Gamepad2,
+  presentation: Presentation,
+  food: Utensils
+};
+
+const ModeIcon: React.FC<{ icon: string; size?: number; className?: string }> = ({ icon, size = 20, className }) => {
+  const Icon = MODE_ICONS[icon] || Sparkles;
+  return <Icon size={size} className={className} />;
+};
+
+export default ModeIcon;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Wand2 } from 'lucide-react';
+
+interface PromptReviewProps {
+  options: string[];
+  isGenerating: boolean;
+  onGenerate: (prompt: string) => void;
+}
+
+const PromptReview: React.FC<PromptReviewProps> = ({ options, isGenerating, onGenerate }) => {
+  const [selected, setSelected] = useState(0);
+  // Edits are kept per option so switching back and forth doesn't lose work
+  const [drafts, setDrafts] = useState<string[]>(options);
+
+  const updateDraft = (value: string) => {
+    setDrafts(prev => prev.map((d, i) => (i === selected ? value : d)));
+  };
+
+  return (
+    <div className="max-w-xl bg-slate-900 border border-slate-700 rounded-xl p-3 space-y-3">
+      {options.length > 1 && (
+        <div className="grid gap-2">
+          {drafts.map((draft, i) => (
+            <button
+              key={i}
+              onClick={() => setSelected(i)}
+              className={`text-left text-xs rounded-lg border px-3 py-2 transition-colors ${i === selected ? 'border-teal-500 bg-teal-900/20 text-slate-200' : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-500'}`}
+            >
+              <span className="font-bold text-teal-400 mr-1">{i + 1}.</span>
+              <span className="line-clamp-2">{draft}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={drafts[selected]}
+        onChange={(e) => updateDraft(e.target.value)}
+        rows={5}
+        className="w-full bg-slate-800 text-slate-200 text-xs font-mono leading-relaxed rounded-lg border border-slate-700 py-2 px-3 focus:ring-1 focus:ring-teal-500 outline-none resize-y"
+      />
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onGenerate(drafts[selected])}
+          disabled={isGenerating || !drafts[selected].trim()}
+          className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white text-sm px-4 py-2 rounded-lg font-medium shadow-lg transition-all"
+        >
+          <Wand2 size={16} /> Generate
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptReview;
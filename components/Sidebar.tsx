@@ -1,34 +1,95 @@
 import React, { useState } from 'react';
-import { AppMode } from '../types';
+import { ArchivedSession, ModeDefinition, ModeId, ModeStatus, Project } from '../types';
+import ModeIcon from './ModeIcon';
 import { 
-  Youtube, 
-  Hexagon, 
-  Scissors, 
-  Share2, 
-  Image as ImageIcon, 
-  User, 
-  Sparkles,
-  RotateCcw
+  RotateCcw,
+  FolderPlus,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  History,
+  Brain,
+  Images,
+  Plus
 } from 'lucide-react';
 
 interface SidebarProps {
-  currentMode: AppMode;
-  setMode: (mode: AppMode) => void;
+  modes: ModeDefinition[];
+  currentMode: ModeId;
+  setMode: (mode: ModeId) => void;
   onReset: () => void;
+  projects: Project[];
+  activeProjectId: string | null;
+  onSelectProject: (projectId: string) => void;
+  onCreateProject: (name: string) => void;
+  onRenameProject: (projectId: string, name: string) => void;
+  onDeleteProject: (projectId: string) => void;
+  archivedSessions: ArchivedSession[];
+  onRestoreSession: (sessionId: string) => void;
+  onDeleteSession: (sessionId: string) => void;
+  isBusy: boolean;
+  modeStatuses: Partial<Record<ModeId, ModeStatus>>;
+  onOpenMemory: () => void;
+  onOpenGallery: () => void;
+  onManageModes: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode, onReset }) => {
+const STATUS_BADGES: Record<ModeStatus, { className: string; title: string }> = {
+  running: { className: 'bg-amber-400 animate-pulse', title: 'Generating…' },
+  done: { className: 'bg-teal-400', title: 'New result' },
+  error: { className: 'bg-red-500', title: 'Generation failed' }
+};
+
+const sessionTitle = (session: ArchivedSession) => {
+  const firstPrompt = session.messages.find(m => m.role === 'user' && m.content.trim());
+  return firstPrompt ? firstPrompt.content : 'Image upload';
+};
+
+const Sidebar: React.FC<SidebarProps> = ({ 
+  modes,
+  currentMode, 
+  setMode, 
+  onReset,
+  projects,
+  activeProjectId,
+  onSelectProject,
+  onCreateProject,
+  onRenameProject,
+  onDeleteProject,
+  archivedSessions,
+  onRestoreSession,
+  onDeleteSession,
+  isBusy,
+  modeStatuses,
+  onOpenMemory,
+  onOpenGallery,
+  onManageModes
+}) => {
   const [imgError, setImgError] = useState(false);
+  const [nameDraft, setNameDraft] = useState('');
+  const [editing, setEditing] = useState<'create' | 'rename' | null>(null);
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  const startEditing = (kind: 'create' | 'rename') => {
+    setEditing(kind);
+    setNameDraft(kind === 'rename' ? activeProject?.name || '' : '');
+  };
 
-  const modes = [
-    { id: AppMode.GENERAL, label: 'General', icon: <Sparkles size={20} /> },
-    { id: AppMode.THUMBNAIL, label: 'Thumbnail', icon: <Youtube size={20} /> },
-    { id: AppMode.LOGO, label: 'Logo', icon: <Hexagon size={20} /> },
-    { id: AppMode.BG_REMOVER, label: 'BG Remover', icon: <Scissors size={20} /> },
-    { id: AppMode.BANNER, label: 'Social Banner', icon: <Share2 size={20} /> },
-    { id: AppMode.POSTER, label: 'Poster', icon: <ImageIcon size={20} /> },
-    { id: AppMode.AVATAR, label: 'Avatar', icon: <User size={20} /> },
-  ];
+  const submitName = () => {
+    if (!nameDraft.trim()) return;
+    if (editing === 'create') onCreateProject(nameDraft);
+    else if (editing === 'rename' && activeProjectId) onRenameProject(activeProjectId, nameDraft);
+    setEditing(null);
+  };
+
+  const handleDeleteProject = () => {
+    if (!activeProject) return;
+    if (window.confirm(`Delete project "${activeProject.name}" and all of its chats?`)) {
+      onDeleteProject(activeProject.id);
+    }
+  };
 
   return (
     <div className="w-16 md:w-64 bg-slate-900 border-r border-slate-800 flex flex-col h-full shrink-0 transition-all duration-300 z-30">
@@ -87,14 +148,63 @@ const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode, onReset }) => {
         </span>
       </div>
 
+      {/* Project Switcher */}
+      <div className="hidden md:block p-3 pb-0">
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1.5 px-1">Project</p>
+          {editing ? (
+            <div className="flex items-center gap-1">
+              <input
+                autoFocus
+                value={nameDraft}
+                onChange={(e) => setNameDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitName();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                placeholder={editing === 'create' ? 'New project name' : 'Project name'}
+                className="flex-1 min-w-0 bg-slate-800 text-slate-200 text-sm rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none"
+              />
+              <button onClick={submitName} className="p-1.5 text-teal-400 hover:bg-slate-800 rounded-lg transition-colors" title="Save">
+                <Check size={16} />
+              </button>
+              <button onClick={() => setEditing(null)} className="p-1.5 text-slate-500 hover:bg-slate-800 rounded-lg transition-colors" title="Cancel">
+                <X size={16} />
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1">
+              <select
+                value={activeProjectId || ''}
+                onChange={(e) => onSelectProject(e.target.value)}
+                disabled={isBusy}
+                className="flex-1 min-w-0 bg-slate-800 text-slate-200 text-sm rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none disabled:opacity-50"
+                title={isBusy ? 'Wait for running generations to finish' : 'Switch project'}
+              >
+                {projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
+                ))}
+              </select>
+              <button onClick={() => startEditing('create')} disabled={isBusy} className="p-1.5 text-slate-400 hover:text-teal-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50" title="New Project">
+                <FolderPlus size={16} />
+              </button>
+              <button onClick={() => startEditing('rename')} disabled={!activeProject} className="p-1.5 text-slate-400 hover:text-teal-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50" title="Rename Project">
+                <Pencil size={14} />
+              </button>
+              <button onClick={handleDeleteProject} disabled={isBusy || !activeProject} className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50" title="Delete Project">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          )}
+      </div>
+
       <div className="p-2 md:p-3 pb-0">
           <button 
             onClick={onReset}
             className="w-full flex items-center gap-2 px-0 md:px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-medium transition-colors border border-slate-700 justify-center md:justify-start"
-            title="New Project"
+            title="Start New Chat (current chat is archived)"
           >
             <RotateCcw size={18} />
-            <span className="hidden md:inline">New Project</span>
+            <span className="hidden md:inline">New Chat</span>
           </button>
       </div>
 
@@ -109,17 +219,83 @@ const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode, onReset }) => {
                     ? 'bg-teal-600 text-white shadow-lg shadow-teal-900/50'
                     : 'text-slate-400 hover:bg-slate-800 hover:text-slate-100'
                 }`}
-                title={mode.label}
+                title={mode.name}
               >
-                <div className={`${currentMode === mode.id ? 'text-white' : 'text-slate-500 group-hover:text-slate-300'}`}>
-                  {mode.icon}
+                <div className={`relative ${currentMode === mode.id ? 'text-white' : 'text-slate-500 group-hover:text-slate-300'}`}>
+                  <ModeIcon icon={mode.icon} />
+                  {modeStatuses[mode.id] && (
+                    <span
+                      className={`absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full border-2 border-slate-900 ${STATUS_BADGES[modeStatuses[mode.id]!].className}`}
+                      title={STATUS_BADGES[modeStatuses[mode.id]!].title}
+                    />
+                  )}
                 </div>
                 <span className="hidden md:block font-medium text-sm">{mode.label}</span>
               </button>
             </li>
           ))}
+          <li>
+            <button
+              onClick={onManageModes}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-slate-500 hover:bg-slate-800 hover:text-slate-200 transition-colors justify-center md:justify-start"
+              title="Create or edit custom modes"
+            >
+              <Plus size={18} />
+              <span className="hidden md:block text-xs font-medium">Custom Mode</span>
+            </button>
+          </li>
         </ul>
+
+        {/* Archived Chats for the current mode */}
+        {archivedSessions.length > 0 && (
+          <div className="hidden md:block px-3 pt-6">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2 px-1 flex items-center gap-1.5">
+              <History size={12} /> Previous Chats
+            </p>
+            <ul className="space-y-1">
+              {archivedSessions.map(session => (
+                <li key={session.id} className="group/session flex items-center gap-1">
+                  <button
+                    onClick={() => onRestoreSession(session.id)}
+                    disabled={isBusy}
+                    className="flex-1 min-w-0 text-left px-2 py-1.5 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors disabled:opacity-50"
+                    title="Reopen this chat"
+                  >
+                    <span className="block text-xs truncate">{sessionTitle(session)}</span>
+                    <span className="block text-[10px] text-slate-600">{new Date(session.archivedAt).toLocaleString()}</span>
+                  </button>
+                  <button
+                    onClick={() => onDeleteSession(session.id)}
+                    className="p-1 text-slate-600 hover:text-red-400 opacity-0 group-hover/session:opacity-100 transition-opacity"
+                    title="Delete chat"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </nav>
+
+      <div className="p-2 md:p-3 border-t border-slate-800 space-y-1">
+          <button 
+            onClick={onOpenGallery}
+            className="w-full flex items-center gap-2 px-0 md:px-3 py-2 text-slate-400 hover:bg-slate-800 hover:text-slate-100 rounded-lg text-sm font-medium transition-colors justify-center md:justify-start"
+            title="Gallery"
+          >
+            <Images size={18} />
+            <span className="hidden md:inline">Gallery</span>
+          </button>
+          <button 
+            onClick={onOpenMemory}
+            className="w-full flex items-center gap-2 px-0 md:px-3 py-2 text-slate-400 hover:bg-slate-800 hover:text-slate-100 rounded-lg text-sm font-medium transition-colors justify-center md:justify-start"
+            title="Learned Styles"
+          >
+            <Brain size={18} />
+            <span className="hidden md:inline">Learned Styles</span>
+          </button>
+      </div>
     </div>
   );
 };
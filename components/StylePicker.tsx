@@ -0,0 +1,189 @@
+import React, { useState, useRef } from 'react';
+import { X, Brush, Plus, Pencil, Trash2, Check, Upload, Ban } from 'lucide-react';
+import { StylePreset } from '../types';
+import { STYLE_THUMBNAIL_MAX_SIDE, stylePresetService } from '../services/styleService';
+import { downscaleImage } from '../services/imageUtils';
+
+interface StylePickerProps {
+  styles: StylePreset[];
+  selectedId?: string;
+  recommendedIds: string[];
+  modeName: string;
+  initialDraft?: StylePreset; // Opens straight into the editor, e.g. for a freshly analyzed style
+  onSelect: (id: string | undefined) => void;
+  onSave: (style: StylePreset) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 text-slate-200 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none";
+const sectionClass = "text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2";
+
+/** Thumbnail for a style: its image if it has one, otherwise its CSS swatch. */
+export const StyleSwatch: React.FC<{ style: StylePreset; className?: string }> = ({ style, className = '' }) =>
+  style.thumbnail ? (
+    <img src={style.thumbnail} alt="" className={`object-cover ${className}`} />
+  ) : (
+    <div className={className} style={{ background: style.swatch || 'linear-gradient(135deg, #334155, #0f172a)' }} />
+  );
+
+const StylePicker: React.FC<StylePickerProps> = ({ styles, selectedId, recommendedIds, modeName, initialDraft, onSelect, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<StylePreset | null>(initialDraft || null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const recommended = recommendedIds
+    .map(id => styles.find(s => s.id === id))
+    .filter((s): s is StylePreset => !!s);
+  const builtIn = styles.filter(s => !s.custom && !recommendedIds.includes(s.id));
+  const custom = styles.filter(s => s.custom);
+
+  const choose = (id: string | undefined) => {
+    onSelect(id);
+    onClose();
+  };
+
+  const handleThumbnail = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !draft) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (!reader.result) return;
+      downscaleImage(reader.result as string, STYLE_THUMBNAIL_MAX_SIDE)
+        .then(thumbnail => setDraft(prev => (prev ? { ...prev, thumbnail } : prev)))
+        .catch(err => console.error("Couldn't read thumbnail", err));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.fragment.trim()) return;
+    onSave({ ...draft, name: draft.name.trim() || 'My Style', fragment: draft.fragment.trim(), negative: draft.negative?.trim() || undefined });
+    setDraft(null);
+  };
+
+  const handleDelete = (style: StylePreset) => {
+    if (window.confirm(`Delete the "${style.name}" style?`)) onDelete(style.id);
+  };
+
+  const renderCard = (style: StylePreset) => (
+    <div key={style.id} className="relative group">
+      <button
+        onClick={() => choose(style.id)}
+        className={`w-full text-left rounded-xl border overflow-hidden transition-all ${style.id === selectedId ? 'border-teal-500 ring-2 ring-teal-500/40' : 'border-slate-700 hover:border-slate-500'}`}
+        title={style.fragment}
+      >
+        <StyleSwatch style={style} className="w-full h-16" />
+        <span className="block text-xs text-slate-200 font-medium px-2 py-1.5 truncate">{style.name}</span>
+      </button>
+      {style.custom && (
+        <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={() => setDraft(style)} className="p-1 bg-slate-900/80 rounded text-slate-300 hover:text-white" title="Edit style"><Pencil size={12} /></button>
+          <button onClick={() => handleDelete(style)} className="p-1 bg-slate-900/80 rounded text-slate-300 hover:text-red-400" title="Delete style"><Trash2 size={12} /></button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-3xl w-full max-h-full flex flex-col overflow-hidden">
+
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Brush size={18} className="text-teal-400" /> Style</h3>
+          <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+            <X size={18} />
+          </button>
+        </div>
+
+        {draft ? (
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Style name" className={`${inputClass} text-sm font-medium`} />
+            <label className="block">
+              <span className={sectionClass}>Prompt fragment</span>
+              <textarea
+                value={draft.fragment}
+                onChange={(e) => setDraft({ ...draft, fragment: e.target.value })}
+                rows={3}
+                placeholder="risograph print, two-color ink, coarse grain, bold silhouettes"
+                className={`${inputClass} resize-y`}
+              />
+            </label>
+            <label className="block">
+              <span className={sectionClass}>Avoid</span>
+              <input
+                value={draft.negative || ''}
+                onChange={(e) => setDraft({ ...draft, negative: e.target.value })}
+                placeholder="gradients, photorealism, clutter"
+                className={inputClass}
+              />
+            </label>
+            {draft.palette && draft.palette.length > 0 && (
+              <div>
+                <span className={sectionClass}>Palette</span>
+                <div className="flex gap-1.5 mt-1">
+                  {draft.palette.map(color => (
+                    <span key={color} className="w-6 h-6 rounded-md border border-slate-600" style={{ backgroundColor: color }} title={color} />
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <input type="file" accept="image/*" ref={fileInputRef} onChange={handleThumbnail} className="hidden" />
+              <StyleSwatch style={draft} className="w-16 h-16 rounded-lg border border-slate-700" />
+              <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 py-1.5 px-3 transition-colors">
+                <Upload size={14} /> Thumbnail
+              </button>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <button onClick={() => setDraft(null)} className="text-xs text-slate-400 hover:text-white px-3 py-2">Cancel</button>
+              <button
+                onClick={handleSave}
+                disabled={!draft.fragment.trim()}
+                className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white text-sm px-4 py-2 rounded-lg font-medium shadow-lg transition-all"
+              >
+                <Check size={16} /> Save style
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4 space-y-5">
+            <button
+              onClick={() => choose(undefined)}
+              className={`flex items-center gap-2 text-xs rounded-lg border px-3 py-1.5 transition-colors ${!selectedId ? 'border-teal-500 text-teal-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+            >
+              <Ban size={14} /> No style (mode default)
+            </button>
+
+            {recommended.length > 0 && (
+              <div>
+                <p className={sectionClass}>Recommended for {modeName}</p>
+                <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">{recommended.map(renderCard)}</div>
+              </div>
+            )}
+
+            <div>
+              <p className={sectionClass}>All styles</p>
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">{builtIn.map(renderCard)}</div>
+            </div>
+
+            <div>
+              <p className={sectionClass}>Your styles</p>
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                {custom.map(renderCard)}
+                <button
+                  onClick={() => setDraft(stylePresetService.create(''))}
+                  className="rounded-xl border border-dashed border-slate-700 text-slate-500 hover:text-teal-400 hover:border-teal-500/50 flex flex-col items-center justify-center gap-1 min-h-[5.5rem] text-xs transition-colors"
+                >
+                  <Plus size={18} /> New style
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StylePicker;
@@ -0,0 +1,327 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Plus, Trash2, Copy, ChevronUp, ChevronDown, Check, Type } from 'lucide-react';
+import { BrandKit, TextLayer, TextOverlay } from '../types';
+import { loadImage } from '../services/imageUtils';
+import {
+  OVERLAY_FONTS,
+  createTextLayer,
+  drawTextLayer,
+  flattenTextLayers,
+  hitTestLayer,
+  loadLayerFonts,
+  measureTextLayer,
+  snapPosition
+} from '../services/textOverlay';
+
+interface TextOverlayEditorProps {
+  overlay: TextOverlay;
+  brandKit?: BrandKit | null;
+  onApply: (flattened: string, overlay: TextOverlay) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 text-slate-200 text-xs rounded-lg border border-slate-700 py-1.5 px-2 focus:ring-1 focus:ring-teal-500 outline-none";
+
+const Swatches: React.FC<{ colors: string[]; onPick: (color: string) => void }> = ({ colors, onPick }) => (
+  <div className="flex flex-wrap gap-1 pl-16">
+    {colors.map(color => (
+      <button key={color} onClick={() => onPick(color)} title={color} className="w-5 h-5 rounded border border-slate-600 hover:scale-110 transition-transform" style={{ backgroundColor: color }} />
+    ))}
+  </div>
+);
+
+const TextOverlayEditor: React.FC<TextOverlayEditorProps> = ({ overlay, brandKit, onApply, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const baseRef = useRef<HTMLImageElement | null>(null);
+  const dragOffset = useRef<{ dx: number; dy: number } | null>(null);
+
+  // New layers start in the brand's headline font and primary color
+  const brandFonts = brandKit?.fonts || [];
+  const brandColors = brandKit?.palette || [];
+  const brandStyle: Partial<TextLayer> = {
+    ...(brandFonts[0] ? { fontFamily: brandFonts[0] } : {}),
+    ...(brandColors[0] ? { fill: brandColors[0] } : {})
+  };
+  const otherFonts = OVERLAY_FONTS.filter(font => !brandFonts.includes(font));
+
+  const [layers, setLayers] = useState<TextLayer[]>(overlay.layers.length > 0 ? overlay.layers : [createTextLayer(brandStyle)]);
+  const [selectedId, setSelectedId] = useState<string | null>(layers[0]?.id || null);
+  const [guides, setGuides] = useState<{ x: number[]; y: number[] }>({ x: [], y: [] });
+  const [fontsVersion, setFontsVersion] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const selected = layers.find(l => l.id === selectedId) || null;
+
+  useEffect(() => {
+    loadImage(overlay.baseImage).then(img => {
+      baseRef.current = img;
+      setFontsVersion(v => v + 1);
+    });
+  }, [overlay.baseImage]);
+
+  // Redraw once newly picked fonts have finished loading
+  useEffect(() => {
+    loadLayerFonts(layers).then(() => setFontsVersion(v => v + 1));
+  }, [layers.map(l => `${l.fontFamily}:${l.fontWeight}`).join('|')]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const base = baseRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !base || !ctx) return;
+
+    canvas.width = base.naturalWidth;
+    canvas.height = base.naturalHeight;
+    ctx.drawImage(base, 0, 0);
+    layers.forEach(layer => drawTextLayer(ctx, layer, canvas.width, canvas.height));
+
+    // Selection outline
+    if (selected) {
+      const size = measureTextLayer(ctx, selected, canvas.height);
+      ctx.save();
+      ctx.translate(selected.x * canvas.width, selected.y * canvas.height);
+      ctx.rotate((selected.rotation * Math.PI) / 180);
+      ctx.strokeStyle = '#2dd4bf';
+      ctx.lineWidth = Math.max(2, canvas.width / 400);
+      ctx.setLineDash([10, 6]);
+      ctx.strokeRect(-size.width / 2 - 8, -size.height / 2 - 8, size.width + 16, size.height + 16);
+      ctx.restore();
+    }
+  }, [layers, selected, fontsVersion]);
+
+  const updateSelected = (changes: Partial<TextLayer>) => {
+    if (!selectedId) return;
+    setLayers(prev => prev.map(l => (l.id === selectedId ? { ...l, ...changes } : l)));
+  };
+
+  const addLayer = () => {
+    const layer = createTextLayer({ ...brandStyle, y: 0.5 + (layers.length % 3) * 0.15 - 0.15 });
+    setLayers(prev => [...prev, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const duplicateLayer = () => {
+    if (!selected) return;
+    const { id, ...style } = selected;
+    const copy = createTextLayer({ ...style, x: Math.min(0.95, selected.x + 0.03), y: Math.min(0.95, selected.y + 0.03) });
+    setLayers(prev => [...prev, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const removeLayer = () => {
+    if (!selectedId) return;
+    const remaining = layers.filter(l => l.id !== selectedId);
+    setLayers(remaining);
+    setSelectedId(remaining[remaining.length - 1]?.id || null);
+  };
+
+  const moveLayer = (direction: 1 | -1) => {
+    const index = layers.findIndex(l => l.id === selectedId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    setLayers(next);
+  };
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const point = toImagePoint(e);
+
+    // Topmost layer wins
+    const hit = [...layers].reverse().find(l => hitTestLayer(ctx, l, point.x, point.y, canvas.width, canvas.height));
+    setSelectedId(hit?.id || null);
+    if (!hit) return;
+
+    canvas.setPointerCapture(e.pointerId);
+    dragOffset.current = { dx: point.x / canvas.width - hit.x, dy: point.y / canvas.height - hit.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!dragOffset.current || !selected || !ctx) return;
+    const point = toImagePoint(e);
+
+    const size = measureTextLayer(ctx, selected, canvas.height);
+    const snapped = snapPosition(
+      point.x / canvas.width - dragOffset.current.dx,
+      point.y / canvas.height - dragOffset.current.dy,
+      size.width / 2 / canvas.width,
+      size.height / 2 / canvas.height
+    );
+    updateSelected({ x: snapped.x, y: snapped.y });
+    setGuides({ x: snapped.guidesX, y: snapped.guidesY });
+  };
+
+  const handlePointerUp = () => {
+    dragOffset.current = null;
+    setGuides({ x: [], y: [] });
+  };
+
+  const handleApply = async () => {
+    setIsExporting(true);
+    try {
+      const flattened = await flattenTextLayers(overlay.baseImage, layers);
+      onApply(flattened, { baseImage: overlay.baseImage, layers });
+    } catch (e) {
+      console.error("Failed to export text overlay", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-6xl w-full max-h-full flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Type size={18} className="text-teal-400" /> Text Layers</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleApply}
+              disabled={isExporting}
+              className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium shadow-lg transition-all"
+            >
+              <Check size={16} /> Flatten &amp; Save
+            </button>
+            <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col lg:flex-row">
+          {/* Canvas */}
+          <div className="flex-1 min-h-0 overflow-auto p-4 flex items-center justify-center bg-slate-950">
+            <div className="relative inline-block">
+              <canvas
+                ref={canvasRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+                className="block max-w-full max-h-[65vh] rounded-lg cursor-move touch-none"
+              />
+              {/* Snap guides */}
+              {guides.x.map(g => (
+                <div key={`x${g}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: `${g * 100}%` }} />
+              ))}
+              {guides.y.map(g => (
+                <div key={`y${g}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none" style={{ top: `${g * 100}%` }} />
+              ))}
+            </div>
+          </div>
+
+          {/* Layer + Property Panel */}
+          <div className="w-full lg:w-72 border-t lg:border-t-0 lg:border-l border-slate-800 overflow-y-auto p-4 space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Layers</p>
+                <div className="flex gap-1">
+                  <button onClick={() => moveLayer(1)} className="p-1 text-slate-400 hover:text-white" title="Bring forward"><ChevronUp size={14} /></button>
+                  <button onClick={() => moveLayer(-1)} className="p-1 text-slate-400 hover:text-white" title="Send backward"><ChevronDown size={14} /></button>
+                  <button onClick={duplicateLayer} className="p-1 text-slate-400 hover:text-white" title="Duplicate"><Copy size={14} /></button>
+                  <button onClick={removeLayer} className="p-1 text-slate-400 hover:text-red-400" title="Delete"><Trash2 size={14} /></button>
+                  <button onClick={addLayer} className="p-1 text-teal-400 hover:text-teal-300" title="Add text"><Plus size={14} /></button>
+                </div>
+              </div>
+              <ul className="space-y-1">
+                {[...layers].reverse().map(layer => (
+                  <li key={layer.id}>
+                    <button
+                      onClick={() => setSelectedId(layer.id)}
+                      className={`w-full text-left text-xs px-2 py-1.5 rounded-lg truncate transition-colors ${layer.id === selectedId ? 'bg-teal-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+                    >
+                      {layer.text.split('\n')[0] || 'Empty text'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {selected && (
+              <div className="space-y-3 text-xs text-slate-400">
+                <textarea value={selected.text} onChange={(e) => updateSelected({ text: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+
+                <div className="grid grid-cols-2 gap-2">
+                  <select value={selected.fontFamily} onChange={(e) => updateSelected({ fontFamily: e.target.value })} className={inputClass}>
+                    {brandFonts.length > 0 ? (
+                      <>
+                        <optgroup label={brandKit?.name}>
+                          {brandFonts.map(font => <option key={font} value={font}>{font}</option>)}
+                        </optgroup>
+                        <optgroup label="Other fonts">
+                          {otherFonts.map(font => <option key={font} value={font}>{font}</option>)}
+                        </optgroup>
+                      </>
+                    ) : (
+                      OVERLAY_FONTS.map(font => <option key={font} value={font}>{font}</option>)
+                    )}
+                  </select>
+                  <select value={selected.fontWeight} onChange={(e) => updateSelected({ fontWeight: Number(e.target.value) })} className={inputClass}>
+                    <option value={400}>Regular</option>
+                    <option value={700}>Bold</option>
+                    <option value={900}>Black</option>
+                  </select>
+                </div>
+
+                <label className="block">Size
+                  <input type="range" min={2} max={40} step={0.5} value={selected.fontSize} onChange={(e) => updateSelected({ fontSize: Number(e.target.value) })} className="w-full accent-teal-500" />
+                </label>
+                <label className="block">Rotation ({selected.rotation}°)
+                  <input type="range" min={-45} max={45} value={selected.rotation} onChange={(e) => updateSelected({ rotation: Number(e.target.value) })} className="w-full accent-teal-500" />
+                </label>
+
+                <div className="flex items-center gap-2">
+                  <span className="w-14">Fill</span>
+                  <input type="color" value={selected.fill} onChange={(e) => updateSelected({ fill: e.target.value })} className="w-8 h-6 bg-transparent" />
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={!!selected.gradient} onChange={(e) => updateSelected({ gradient: e.target.checked ? '#facc15' : undefined })} className="accent-teal-500" />
+                    Gradient
+                  </label>
+                  {selected.gradient && (
+                    <input type="color" value={selected.gradient} onChange={(e) => updateSelected({ gradient: e.target.value })} className="w-8 h-6 bg-transparent" />
+                  )}
+                </div>
+                {brandColors.length > 0 && <Swatches colors={brandColors} onPick={(fill) => updateSelected({ fill })} />}
+
+                <div className="flex items-center gap-2">
+                  <span className="w-14">Stroke</span>
+                  <input type="color" value={selected.strokeColor} onChange={(e) => updateSelected({ strokeColor: e.target.value })} className="w-8 h-6 bg-transparent" />
+                  <input type="range" min={0} max={25} value={selected.strokeWidth} onChange={(e) => updateSelected({ strokeWidth: Number(e.target.value) })} className="flex-1 accent-teal-500" />
+                </div>
+                {brandColors.length > 0 && <Swatches colors={brandColors} onPick={(strokeColor) => updateSelected({ strokeColor })} />}
+
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={selected.shadow} onChange={(e) => updateSelected({ shadow: e.target.checked })} className="accent-teal-500" />
+                  Drop shadow
+                </label>
+
+                <div className="grid grid-cols-3 gap-1">
+                  {[['Left', 1 / 3], ['Center', 0.5], ['Right', 2 / 3]].map(([label, x]) => (
+                    <button key={label as string} onClick={() => updateSelected({ x: x as number })} className="bg-slate-800 hover:bg-slate-700 rounded-lg py-1 border border-slate-700">{label}</button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextOverlayEditor;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, Loader2, Spline } from 'lucide-react';
+import { DEFAULT_VECTORIZE_OPTIONS, VectorizeOptions, VectorizeResult, vectorizeImage } from '../services/vectorizer';
+import { downloadBlob } from '../services/exportService';
+import { CHECKERBOARD_STYLE } from './ImageCanvas';
+
+interface VectorizeDialogProps {
+  image: string;
+  onClose: () => void;
+}
+
+const PREVIEW_DEBOUNCE_MS = 250;
+
+const VectorizeDialog: React.FC<VectorizeDialogProps> = ({ image, onClose }) => {
+  const [options, setOptions] = useState<VectorizeOptions>(DEFAULT_VECTORIZE_OPTIONS);
+  const [result, setResult] = useState<VectorizeResult | null>(null);
+  const [isTracing, setIsTracing] = useState(true);
+
+  // Re-trace shortly after the sliders settle
+  useEffect(() => {
+    let cancelled = false;
+    setIsTracing(true);
+    const timer = setTimeout(() => {
+      vectorizeImage(image, options)
+        .then(traced => { if (!cancelled) setResult(traced); })
+        .catch(e => console.error("Vectorization failed", e))
+        .finally(() => { if (!cancelled) setIsTracing(false); });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image, options]);
+
+  const handleDownload = () => {
+    if (!result) return;
+    downloadBlob(new Blob([result.svg], { type: 'image/svg+xml' }), `pixfroge-logo-${Date.now()}.svg`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-4xl w-full max-h-full flex flex-col overflow-hidden">
+
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Spline size={18} className="text-teal-400" /> Vectorize to SVG</h3>
+          <button onClick={onClose} className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full transition-colors border border-slate-700/50">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Side-by-side: raster vs. traced */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="rounded-xl border border-slate-800 overflow-hidden bg-slate-950">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-3 py-2">Original</p>
+            <img src={image} alt="Original logo" className="w-full max-h-[45vh] object-contain" />
+          </div>
+          <div className="rounded-xl border border-slate-800 overflow-hidden bg-slate-950 relative">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-3 py-2">
+              SVG {result && `· ${result.pathCount} paths · ${Math.round(result.svg.length / 1024)} KB`}
+            </p>
+            <div style={CHECKERBOARD_STYLE}>
+              {result && (
+                <img
+                  src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(result.svg)}`}
+                  alt="Vectorized logo"
+                  className="w-full max-h-[45vh] object-contain"
+                />
+              )}
+            </div>
+            {isTracing && (
+              <div className="absolute inset-0 flex items-center justify-center bg-slate-950/40">
+                <Loader2 size={28} className="animate-spin text-teal-400" />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-t border-slate-800">
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <label className="flex items-center gap-2">
+              Detail
+              <input type="range" min={1} max={10} value={options.detail}
+                onChange={(e) => setOptions({ ...options, detail: Number(e.target.value) })}
+                className="w-24 accent-teal-500" />
+            </label>
+            <label className="flex items-center gap-2">
+              Colors {options.colors}
+              <input type="range" min={2} max={16} value={options.colors}
+                onChange={(e) => setOptions({ ...options, colors: Number(e.target.value) })}
+                className="w-24 accent-teal-500" />
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.removeBackground}
+                onChange={(e) => setOptions({ ...options, removeBackground: e.target.checked })}
+                className="accent-teal-500" />
+              Remove background
+            </label>
+            {result && (
+              <div className="flex gap-1">
+                {result.palette.map(color => (
+                  <span key={color} className="w-4 h-4 rounded border border-slate-600" style={{ backgroundColor: color }} title={color} />
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={handleDownload}
+            disabled={!result || isTracing}
+            className="flex items-center gap-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium shadow-lg transition-all"
+          >
+            <Download size={16} /> Download SVG
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VectorizeDialog;
@@ -1,6 +1,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { applyConfiguredRateLimits } from './services/rateLimiter';
+
+applyConfiguredRateLimits();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
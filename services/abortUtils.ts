@@ -0,0 +1,24 @@
+// ============================================================================
+//  CANCELLATION HELPERS
+// ============================================================================
+export const createAbortError = () => new DOMException("The generation was cancelled.", "AbortError");
+
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError' || (error instanceof DOMException && error.code === DOMException.ABORT_ERR);
+
+/**
+ * Wait `ms`, rejecting early if the signal fires so cancelled jobs don't sit out cooldowns.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,180 @@
+import { imageToCanvas } from "./imageUtils";
+
+// ============================================================================
+//  BACKGROUND REMOVAL (CLIENT-SIDE MATTING)
+// ============================================================================
+// The model isolates the subject on a solid background; this turns that
+// background into real transparency:
+//   1. Estimate the background color from the image border.
+//   2. Flood-fill from the border so only background *connected* to the edge
+//      is removed (white details inside the subject survive).
+//   3. Derive a soft alpha from color distance, then feather it.
+//   4. Un-mix the background color from semi-transparent edge pixels so no
+//      white halo remains when composited on a dark backdrop.
+
+export interface MattingOptions {
+  tolerance: number; // 0-100, how far from the background color still counts as background
+  feather: number;   // Edge blur radius in pixels
+  haloCleanup: boolean;
+}
+
+export const DEFAULT_MATTING_OPTIONS: MattingOptions = {
+  tolerance: 30,
+  feather: 1,
+  haloCleanup: true
+};
+
+const MAX_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+const estimateBackgroundColor = (data: Uint8ClampedArray, width: number, height: number): [number, number, number] => {
+  const reds: number[] = [];
+  const greens: number[] = [];
+  const blues: number[] = [];
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    reds.push(data[i]);
+    greens.push(data[i + 1]);
+    blues.push(data[i + 2]);
+  };
+
+  const step = Math.max(1, Math.floor(Math.min(width, height) / 200));
+  for (let x = 0; x < width; x += step) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 0; y < height; y += step) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  // Median is robust against the subject touching the frame
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return [median(reds), median(greens), median(blues)];
+};
+
+const boxBlur = (alpha: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  if (radius <= 0) return alpha;
+  const temp = new Float32Array(alpha.length);
+  const out = new Float32Array(alpha.length);
+  const size = radius * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const xx = Math.min(width - 1, Math.max(0, x + k));
+        sum += alpha[y * width + xx];
+      }
+      temp[y * width + x] = sum / size;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const yy = Math.min(height - 1, Math.max(0, y + k));
+        sum += temp[yy * width + x];
+      }
+      out[y * width + x] = sum / size;
+    }
+  }
+  return out;
+};
+
+/**
+ * Compute a soft alpha matte (0-1 per pixel) for an image on a solid background.
+ */
+export const computeAlphaMatte = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: MattingOptions = DEFAULT_MATTING_OPTIONS
+): { alpha: Float32Array; background: [number, number, number] } => {
+  const background = estimateBackgroundColor(data, width, height);
+  const total = width * height;
+
+  // Distance thresholds: below `low` is pure background, above `high` pure subject
+  const low = (options.tolerance / 100) * MAX_DISTANCE * 0.35;
+  const high = low + MAX_DISTANCE * 0.12;
+
+  const distance = new Float32Array(total);
+  for (let p = 0; p < total; p++) {
+    const i = p * 4;
+    const dr = data[i] - background[0];
+    const dg = data[i + 1] - background[1];
+    const db = data[i + 2] - background[2];
+    distance[p] = Math.sqrt(dr * dr + dg * dg + db * db);
+  }
+
+  // Flood fill background reachable from the border
+  const reachable = new Uint8Array(total);
+  const stack: number[] = [];
+  const push = (p: number) => {
+    if (!reachable[p] && distance[p] < high) {
+      reachable[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    push(x);
+    push((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    push(y * width);
+    push(y * width + width - 1);
+  }
+  while (stack.length > 0) {
+    const p = stack.pop() as number;
+    const x = p % width;
+    if (x > 0) push(p - 1);
+    if (x < width - 1) push(p + 1);
+    if (p >= width) push(p - width);
+    if (p < total - width) push(p + width);
+  }
+
+  let alpha = new Float32Array(total);
+  for (let p = 0; p < total; p++) {
+    alpha[p] = reachable[p]
+      ? Math.min(1, Math.max(0, (distance[p] - low) / (high - low)))
+      : 1;
+  }
+
+  alpha = boxBlur(alpha, width, height, Math.round(options.feather));
+  return { alpha, background };
+};
+
+/**
+ * Turn a solid-background image into a transparent PNG data URL.
+ */
+export const removeBackground = async (
+  src: string,
+  options: MattingOptions = DEFAULT_MATTING_OPTIONS
+): Promise<string> => {
+  const { canvas, ctx } = await imageToCanvas(src);
+  const { width, height } = canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+
+  const { alpha, background } = computeAlphaMatte(data, width, height, options);
+
+  for (let p = 0; p < alpha.length; p++) {
+    const i = p * 4;
+    let a = alpha[p];
+
+    if (options.haloCleanup && a > 0 && a < 1) {
+      // Choke the fringe slightly, then remove the background color that bled into it
+      a = Math.max(0, (a - 0.1) / 0.9);
+      if (a > 0) {
+        for (let c = 0; c < 3; c++) {
+          const unmixed = (data[i + c] - (1 - a) * background[c]) / a;
+          data[i + c] = Math.min(255, Math.max(0, unmixed));
+        }
+      }
+    }
+
+    data[i + 3] = Math.round(a * data[i + 3]);
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,68 @@
+import { BrandKit } from "../types";
+import { STORE_BRAND_KITS, runRequest } from "./studioDb";
+import { createId } from "./projectService";
+
+const ACTIVE_BRAND_KIT_KEY = 'pixfrog_active_brand_kit';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Normalize "#abc", "ABC" or "#AABBCC" to "#aabbcc"; anything else is dropped. */
+export const normalizeHex = (value: string): string | null => {
+  let hex = value.trim().toLowerCase();
+  if (!hex.startsWith('#')) hex = `#${hex}`;
+  if (/^#[0-9a-f]{3}$/.test(hex)) hex = `#${hex.slice(1).split('').map(c => c + c).join('')}`;
+  return HEX_COLOR.test(hex) ? hex : null;
+};
+
+/**
+ * Brand Kit Persistence
+ * Stores reusable brand settings (palette, fonts, tone, logo) shared by every
+ * project and mode.
+ */
+export const brandKitService = {
+  create: (name: string): BrandKit => {
+    const now = Date.now();
+    return {
+      id: createId(),
+      name: name.trim() || 'Untitled Brand',
+      palette: [],
+      fonts: [],
+      toneWords: [],
+      createdAt: now,
+      updatedAt: now
+    };
+  },
+
+  list: async (): Promise<BrandKit[]> => {
+    try {
+      const kits = await runRequest<BrandKit[]>(STORE_BRAND_KITS, 'readonly', store => store.getAll());
+      return kits.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (e) {
+      console.error("Failed to load brand kits", e);
+      return [];
+    }
+  },
+
+  save: async (kit: BrandKit): Promise<void> => {
+    try {
+      await runRequest(STORE_BRAND_KITS, 'readwrite', store => store.put(kit));
+    } catch (e) {
+      console.error("Failed to save brand kit", e);
+    }
+  },
+
+  remove: async (id: string): Promise<void> => {
+    try {
+      await runRequest(STORE_BRAND_KITS, 'readwrite', store => store.delete(id));
+    } catch (e) {
+      console.error("Failed to delete brand kit", e);
+    }
+  },
+
+  getActiveId: (): string | null => localStorage.getItem(ACTIVE_BRAND_KIT_KEY),
+
+  setActiveId: (id: string | null) => {
+    if (id) localStorage.setItem(ACTIVE_BRAND_KIT_KEY, id);
+    else localStorage.removeItem(ACTIVE_BRAND_KIT_KEY);
+  }
+};
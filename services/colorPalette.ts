@@ -0,0 +1,95 @@
+import { createCanvas, loadImage } from "./imageUtils";
+
+// ============================================================================
+//  COLOR PALETTES
+// ============================================================================
+// K-means color quantization, shared by the vectorizer (which traces one
+// layer per palette color) and style analysis (which keeps the dominant
+// colors of a reference image).
+
+export type Rgb = [number, number, number];
+
+// Working size for palette extraction; plenty for dominant colors and fast to cluster
+const PALETTE_SAMPLE_SIDE = 96;
+
+export const toHex = ([r, g, b]: Rgb) => '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+export const colorDistance = (a: Rgb, b: Rgb) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+export const quantize = (pixels: Rgb[], k: number): Rgb[] => {
+  if (pixels.length === 0) return [];
+
+  // Deterministic seeding: spread initial centers across the luminance range
+  const sorted = [...pixels].sort((a, b) => (a[0] + a[1] + a[2]) - (b[0] + b[1] + b[2]));
+  let centers: Rgb[] = Array.from({ length: k }, (_, i) => [...sorted[Math.floor(((i + 0.5) / k) * sorted.length)]] as Rgb);
+
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const p of pixels) {
+      let best = 0;
+      let bestDist = Infinity;
+      centers.forEach((c, i) => {
+        const d = colorDistance(p, c);
+        if (d < bestDist) {
+          bestDist = d;
+          best = i;
+        }
+      });
+      sums[best][0] += p[0];
+      sums[best][1] += p[1];
+      sums[best][2] += p[2];
+      sums[best][3]++;
+    }
+    centers = centers.map((c, i) => (sums[i][3] > 0
+      ? [sums[i][0] / sums[i][3], sums[i][1] / sums[i][3], sums[i][2] / sums[i][3]]
+      : c));
+  }
+
+  // Merge near-duplicate centers
+  const unique: Rgb[] = [];
+  for (const c of centers) {
+    if (!unique.some(u => colorDistance(u, c) < 100)) unique.push(c);
+  }
+  return unique;
+};
+
+/**
+ * Dominant colors of an image as hex strings, most common first.
+ */
+export const extractPalette = async (src: string, count: number = 6): Promise<string[]> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, PALETTE_SAMPLE_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+
+  const pixels: Rgb[] = [];
+  for (let p = 0; p < width * height; p++) {
+    if (data[p * 4 + 3] < 128) continue;
+    pixels.push([data[p * 4], data[p * 4 + 1], data[p * 4 + 2]]);
+  }
+
+  const palette = quantize(pixels, count);
+  const counts = new Array(palette.length).fill(0);
+  for (const p of pixels) {
+    let best = 0;
+    let bestDist = Infinity;
+    palette.forEach((c, i) => {
+      const d = colorDistance(p, c);
+      if (d < bestDist) {
+        bestDist = d;
+        best = i;
+      }
+    });
+    counts[best]++;
+  }
+
+  return palette
+    .map((color, i) => ({ hex: toHex(color), count: counts[i] }))
+    .filter(entry => entry.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .map(entry => entry.hex);
+};
@@ -0,0 +1,74 @@
+import { ChatMessage } from "../types";
+
+// ============================================================================
+//  CONVERSATION CONTEXT (follow-ups)
+// ============================================================================
+// Lets a message like "make the background bluer" build on the chat so far:
+// earlier turns are summarized for prompt refinement, and edits reuse the
+// last generated image as their base.
+
+const HISTORY_TURNS = 3;
+const MAX_SNIPPET_LENGTH = 300;
+
+// Messages that open with a verb that only ever edits ("remove the…", "crop…")
+const EDIT_VERB = /^(please\s+)?(turn|remove|delete|erase|replace|swap|increase|decrease|reduce|brighten|darken|zoom|crop|recolou?r|tweak|adjust)\b/i;
+// Openers that start new requests just as often ("make a logo…", "now a poster…",
+// "change of plans…"), so they only count when they name the existing image or a part of it
+const AMBIGUOUS_VERB = /^(please\s+)?(make|add|put|give|use|change|move|keep|fix|now)\b/i;
+// "this"/"that" need a noun after them: "this summer sale" is not the current image
+const REFERENCE = /\b(it|its|them|same|(this|that|the) (one|background|bg|text|title|logo|colou?rs?|image|picture|face|subject|lighting|font))\b/i;
+// Comparatives only count as an edit when they point at something already there
+const COMPARATIVE = /\b(more|less|bigger|smaller|larger|brighter|darker|bluer|redder|greener|warmer|cooler|lighter|bolder)\b/i;
+// Words that only make sense relative to a previous result
+const RELATIVE = /\b(instead|again|anymore)\b/i;
+
+/**
+ * Whether a message reads as a change to the previous result rather than a new request.
+ */
+export const looksLikeEdit = (text: string): boolean => {
+  const trimmed = text.trim();
+  if (!trimmed) return false;
+  return EDIT_VERB.test(trimmed)
+    || RELATIVE.test(trimmed)
+    || (AMBIGUOUS_VERB.test(trimmed) && REFERENCE.test(trimmed))
+    || (COMPARATIVE.test(trimmed) && REFERENCE.test(trimmed));
+};
+
+/**
+ * The image currently shown on the most recent assistant turn, if any.
+ */
+export const lastAssistantImage = (messages: ChatMessage[]): string | undefined => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'assistant' && message.images && message.images.length > 0) {
+      const selected = Math.min(message.metadata?.selectedIndex || 0, message.images.length - 1);
+      return message.images[selected];
+    }
+  }
+  return undefined;
+};
+
+const clip = (text: string) => (text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH)}…` : text);
+
+/**
+ * Compact recap of the last few successful turns, oldest first.
+ */
+export const summarizeTurns = (messages: ChatMessage[], limit: number = HISTORY_TURNS): string => {
+  const turns: string[] = [];
+  for (let i = messages.length - 1; i >= 0 && turns.length < limit; i--) {
+    const message = messages[i];
+    if (message.role !== 'assistant' || !message.metadata?.finalPrompt) continue;
+    const asked = message.metadata.originalPrompt || (messages[i - 1]?.role === 'user' ? messages[i - 1].content : '');
+    turns.unshift(`User asked: "${clip(asked || '(image only)')}" -> Prompt used: "${clip(message.metadata.finalPrompt)}"`);
+  }
+  return turns.map((turn, i) => `${i + 1}. ${turn}`).join('\n');
+};
+
+/**
+ * Images a user turn was generated from: its uploads, or the earlier result it edited.
+ */
+export const turnInputs = (message: ChatMessage | undefined): string[] | undefined => {
+  if (!message || message.role !== 'user') return undefined;
+  if (message.images && message.images.length > 0) return message.images;
+  return message.metadata?.baseImage ? [message.metadata.baseImage] : undefined;
+};
@@ -0,0 +1,109 @@
+import { GenerationErrorKind, MessageError } from "../types";
+import { isAbortError } from "./abortUtils";
+import { errorStatus } from "./rateLimiter";
+
+// ============================================================================
+//  ERROR TAXONOMY
+// ============================================================================
+// Services throw GenerationError so the UI can react to *what* went wrong
+// (and offer the right fix) instead of pattern-matching message strings.
+
+// Finish / block reasons that mean the model refused on policy grounds
+const SAFETY_REASONS = [
+  'SAFETY',
+  'IMAGE_SAFETY',
+  'PROHIBITED_CONTENT',
+  'IMAGE_PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+  'RECITATION',
+  'MODEL_ARMOR'
+];
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  status?: number;
+  finishReason?: string; // Candidate finish reason or prompt block reason, as reported by the API
+  category?: string; // Safety category that triggered a block, e.g. "dangerous content"
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    details: { status?: number; finishReason?: string; category?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = details.status;
+    this.finishReason = details.finishReason;
+    this.category = details.category;
+  }
+}
+
+export const isSafetyReason = (reason?: string | null): boolean =>
+  !!reason && SAFETY_REASONS.includes(reason);
+
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+export const formatSafetyCategory = (category?: string): string | undefined =>
+  category ? category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase() : undefined;
+
+/**
+ * Turn whatever the SDK or network threw into a GenerationError.
+ * Abort errors pass through untouched so cancellation stays recognisable.
+ */
+export const toGenerationError = (error: any): GenerationError | DOMException => {
+  if (error instanceof GenerationError) return error;
+  if (isAbortError(error)) return error as DOMException;
+
+  const status = errorStatus(error) ?? undefined;
+  const message = String(error?.message ?? error ?? 'Unknown error');
+
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    return new GenerationError('quota', "The image service is out of quota right now.", { status, cause: error });
+  }
+  if (status === 401 || status === 403 || /PERMISSION_DENIED|API key not valid|UNAUTHENTICATED/i.test(message)) {
+    return new GenerationError('auth', "The API key was rejected or lacks access to this model.", { status, cause: error });
+  }
+  if (status === 400 || /INVALID_ARGUMENT/.test(message)) {
+    return new GenerationError('invalid-input', "The request was rejected as invalid.", { status, cause: error });
+  }
+  if (error instanceof TypeError || /fetch|network/i.test(message) || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new GenerationError('network', "Couldn't reach the image service.", { status, cause: error });
+  }
+  return new GenerationError('unknown', message, { status, cause: error });
+};
+
+interface ErrorCopy {
+  title: string;
+  hint: string;
+  retryable: boolean;
+}
+
+const ERROR_COPY: Record<GenerationErrorKind, ErrorCopy> = {
+  'quota': { title: 'Quota exceeded', hint: 'Wait a minute and retry, or switch to Fast mode.', retryable: true },
+  'auth': { title: 'API key problem', hint: 'Check that the API key is set and allowed to use this model.', retryable: false },
+  'safety': { title: 'Blocked by safety filters', hint: 'Rephrase the request to avoid the flagged content.', retryable: false },
+  'network': { title: 'Network error', hint: 'Check your internet connection and retry.', retryable: true },
+  'empty-response': { title: 'No image returned', hint: 'The model answered without an image. Retrying or rephrasing usually helps.', retryable: true },
+  'invalid-input': { title: 'Request rejected', hint: 'Try a shorter prompt or different reference images.', retryable: false },
+  'unknown': { title: 'Something went wrong', hint: 'Retry in a moment.', retryable: true }
+};
+
+/**
+ * Serializable summary of a failure, stored on the chat message for the error card.
+ */
+export const describeGenerationError = (error: any): MessageError => {
+  const typed = toGenerationError(error);
+  const generationError = typed instanceof GenerationError ? typed : null;
+  const kind: GenerationErrorKind = generationError?.kind ?? 'unknown';
+  const copy = ERROR_COPY[kind];
+  return {
+    kind,
+    title: copy.title,
+    message: typed.message || copy.title,
+    hint: copy.hint,
+    retryable: copy.retryable,
+    ...(generationError?.finishReason ? { finishReason: generationError.finishReason } : {}),
+    ...(generationError?.category ? { category: generationError.category } : {})
+  };
+};
@@ -0,0 +1,224 @@
+import { AppMode, ImageRecipe, ModeId } from "../types";
+import { createCanvas, imageToCanvas, loadImage } from "./imageUtils";
+import { createZip, ZipEntry } from "./zipService";
+import { embedRecipe } from "./imageMetadata";
+
+// ============================================================================
+//  PLATFORM EXPORT PRESETS
+// ============================================================================
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+export type FitMode = 'crop' | 'fit';
+
+export interface ExportPreset {
+  id: string;
+  label: string;
+  width: number; // 0 keeps the source dimensions
+  height: number;
+  maxBytes?: number; // Platform upload limit
+  modes: ModeId[]; // Modes where this preset is suggested first
+}
+
+/** Saves the image as generated: no crop, no resize. */
+export const ORIGINAL_PRESET: ExportPreset = { id: 'original', label: 'Original size', width: 0, height: 0, modes: [] };
+
+export const isOriginalSize = (preset: ExportPreset) => preset.width === 0 || preset.height === 0;
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'youtube-thumbnail', label: 'YouTube Thumbnail', width: 1280, height: 720, maxBytes: 2 * 1024 * 1024, modes: [AppMode.THUMBNAIL] },
+  { id: 'twitter-header', label: 'Twitter/X Header', width: 1500, height: 500, modes: [AppMode.BANNER] },
+  { id: 'linkedin-banner', label: 'LinkedIn Banner', width: 1584, height: 396, modes: [AppMode.BANNER] },
+  { id: 'instagram-portrait', label: 'Instagram Portrait', width: 1080, height: 1350, modes: [AppMode.POSTER, AppMode.GENERAL] },
+  { id: 'avatar', label: 'Avatar', width: 400, height: 400, modes: [AppMode.AVATAR, AppMode.LOGO] }
+];
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+/**
+ * Presets for the mode first, then everything else. Modes without a platform
+ * of their own (cutouts, custom modes) lead with the untouched original.
+ */
+export const getPresetsForMode = (mode: ModeId): ExportPreset[] => {
+  const matching = EXPORT_PRESETS.filter(p => p.modes.includes(mode));
+  const others = EXPORT_PRESETS.filter(p => !p.modes.includes(mode));
+  return matching.length > 0
+    ? [...matching, ORIGINAL_PRESET, ...others]
+    : [ORIGINAL_PRESET, ...others];
+};
+
+// ============================================================================
+//  SMART CROP
+// ============================================================================
+// Slides the crop window along the free axis and keeps the position with the
+// most edge energy, which usually follows faces, text and the main subject.
+const ENERGY_SAMPLE_SIZE = 96;
+
+const findCropOffset = (img: HTMLImageElement, cropW: number, cropH: number): { x: number; y: number } => {
+  const scale = ENERGY_SAMPLE_SIZE / Math.max(img.naturalWidth, img.naturalHeight);
+  const w = Math.max(1, Math.round(img.naturalWidth * scale));
+  const h = Math.max(1, Math.round(img.naturalHeight * scale));
+  const { ctx } = createCanvas(w, h);
+  ctx.drawImage(img, 0, 0, w, h);
+  const data = ctx.getImageData(0, 0, w, h).data;
+
+  const luma = (x: number, y: number) => {
+    const i = (y * w + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  // Column and row energy profiles
+  const cols = new Float32Array(w);
+  const rows = new Float32Array(h);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const e = Math.abs(luma(x + 1, y) - luma(x - 1, y)) + Math.abs(luma(x, y + 1) - luma(x, y - 1));
+      cols[x] += e;
+      rows[y] += e;
+    }
+  }
+
+  const bestStart = (profile: Float32Array, window: number) => {
+    if (window >= profile.length) return 0;
+    let sum = 0;
+    for (let i = 0; i < window; i++) sum += profile[i];
+    let best = sum;
+    let bestIndex = 0;
+    for (let i = window; i < profile.length; i++) {
+      sum += profile[i] - profile[i - window];
+      if (sum > best) {
+        best = sum;
+        bestIndex = i - window + 1;
+      }
+    }
+    return bestIndex;
+  };
+
+  return {
+    x: bestStart(cols, Math.round(cropW * scale)) / scale,
+    y: bestStart(rows, Math.round(cropH * scale)) / scale
+  };
+};
+
+/**
+ * Resize an image to the exact preset size, either cropping (smart) or fitting
+ * inside a solid `backdrop` color, or a blurred backdrop (transparent for PNG)
+ * when no color is given.
+ */
+export const renderToSize = async (
+  src: string,
+  width: number,
+  height: number,
+  fit: FitMode,
+  format: ExportFormat,
+  backdrop?: string
+): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+
+  const srcW = img.naturalWidth;
+  const srcH = img.naturalHeight;
+  const targetRatio = width / height;
+
+  if (fit === 'crop') {
+    const cropW = Math.min(srcW, srcH * targetRatio);
+    const cropH = Math.min(srcH, srcW / targetRatio);
+    const { x, y } = findCropOffset(img, cropW, cropH);
+    const cx = Math.min(Math.max(0, x), srcW - cropW);
+    const cy = Math.min(Math.max(0, y), srcH - cropH);
+    ctx.drawImage(img, cx, cy, cropW, cropH, 0, 0, width, height);
+  } else {
+    if (backdrop) {
+      ctx.fillStyle = backdrop;
+      ctx.fillRect(0, 0, width, height);
+    } else if (format !== 'image/png') {
+      // Blurred cover fill so letterboxing doesn't look like empty bars
+      const cover = Math.max(width / srcW, height / srcH);
+      ctx.filter = 'blur(24px) brightness(0.7)';
+      ctx.drawImage(img, (width - srcW * cover) / 2, (height - srcH * cover) / 2, srcW * cover, srcH * cover);
+      ctx.filter = 'none';
+    }
+    const contain = Math.min(width / srcW, height / srcH);
+    ctx.drawImage(img, (width - srcW * contain) / 2, (height - srcH * contain) / 2, srcW * contain, srcH * contain);
+  }
+
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Image encoding failed."))), format, quality);
+  });
+
+/**
+ * Encode a canvas, lowering quality (and switching PNG to JPEG) until the
+ * result fits under `maxBytes`.
+ */
+export const encodeCanvas = async (
+  canvas: HTMLCanvasElement,
+  format: ExportFormat,
+  quality: number,
+  maxBytes?: number
+): Promise<{ blob: Blob; format: ExportFormat }> => {
+  let blob = await canvasToBlob(canvas, format, quality);
+  if (!maxBytes || blob.size <= maxBytes) return { blob, format };
+
+  const lossyFormat: ExportFormat = format === 'image/png' ? 'image/jpeg' : format;
+  let q = Math.min(quality, 0.92);
+  while (q >= 0.4) {
+    blob = await canvasToBlob(canvas, lossyFormat, q);
+    if (blob.size <= maxBytes) break;
+    q -= 0.08;
+  }
+  return { blob, format: lossyFormat };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export interface ExportOptions {
+  fit: FitMode;
+  format: ExportFormat;
+  quality: number; // 0-1, ignored for PNG unless a size limit forces JPEG
+  backdrop?: string; // Solid letterbox color for 'fit', e.g. a brand color
+}
+
+/**
+ * Render one preset. With a `recipe`, the prompt and settings are embedded in
+ * the file unless that would push it over the preset's size limit.
+ */
+export const exportPreset = async (src: string, preset: ExportPreset, options: ExportOptions, recipe?: ImageRecipe) => {
+  const canvas = isOriginalSize(preset)
+    ? (await imageToCanvas(src)).canvas
+    : await renderToSize(src, preset.width, preset.height, options.fit, options.format, options.backdrop);
+  const encoded = await encodeCanvas(canvas, options.format, options.quality, preset.maxBytes);
+  let blob = encoded.blob;
+  if (recipe) {
+    const tagged = await embedRecipe(blob, recipe);
+    if (!preset.maxBytes || tagged.size <= preset.maxBytes) blob = tagged;
+  }
+  return { blob, filename: `pixfroge-${preset.id}-${canvas.width}x${canvas.height}.${FORMAT_EXTENSIONS[encoded.format]}` };
+};
+
+/**
+ * Render every preset and bundle them into one zip.
+ */
+export const exportAllPresets = async (src: string, presets: ExportPreset[], options: ExportOptions, recipe?: ImageRecipe): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  for (const preset of presets) {
+    const { blob, filename } = await exportPreset(src, preset, options, recipe);
+    entries.push({ name: filename, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  return createZip(entries);
+};
@@ -0,0 +1,120 @@
+import { ArchivedSession, ChatMessage, GeneratedImage, ModeId } from "../types";
+import { buildRecipe, embedRecipe } from "./imageMetadata";
+import { downloadBlob } from "./exportService";
+import { createZip, ZipEntry } from "./zipService";
+
+// ============================================================================
+//  GALLERY
+// ============================================================================
+// Every assistant image in a project, across modes, the live chats and the
+// archived sessions. Archives usually share messages with the live chat (an
+// edited chat is archived whole, then truncated), so images are de-duplicated
+// by URL and the newest occurrence wins.
+
+export type GalleryDateRange = 'all' | 'today' | 'week' | 'month';
+
+export interface GalleryFilters {
+  mode: ModeId | 'all';
+  range: GalleryDateRange;
+  likedOnly: boolean;
+  query: string;
+}
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = { mode: 'all', range: 'all', likedOnly: false, query: '' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rangeStart = (range: GalleryDateRange, now: number): number => {
+  switch (range) {
+    case 'today': {
+      const midnight = new Date(now);
+      midnight.setHours(0, 0, 0, 0);
+      return midnight.getTime();
+    }
+    case 'week': return now - 7 * DAY_MS;
+    case 'month': return now - 30 * DAY_MS;
+    default: return 0;
+  }
+};
+
+const imagesFromMessages = (messages: ChatMessage[], mode: ModeId, sessionId?: string): GeneratedImage[] =>
+  messages.flatMap((message, messageIndex) => {
+    if (message.role !== 'assistant' || !message.images) return [];
+    const { metadata } = message;
+    const recipe = buildRecipe(message, mode);
+    // A like belongs to one variation, not to all of the turn's images
+    const likedIndex = metadata?.liked ? metadata.likedIndex ?? metadata.selectedIndex ?? 0 : -1;
+    return message.images.map((url, variantIndex) => ({
+      id: `${sessionId || 'live'}-${mode}-${messageIndex}-${variantIndex}`,
+      url,
+      prompt: metadata?.finalPrompt || metadata?.originalPrompt || message.content,
+      originalPrompt: metadata?.originalPrompt,
+      timestamp: message.timestamp,
+      mode,
+      liked: variantIndex === likedIndex,
+      transparent: !!metadata?.originalImages,
+      sessionId,
+      recipe
+    }));
+  });
+
+/**
+ * Collect a project's images, newest first.
+ */
+export const collectGalleryImages = (histories: Record<string, ChatMessage[]>, archives: ArchivedSession[]): GeneratedImage[] => {
+  const all = [
+    ...Object.entries(histories).flatMap(([mode, messages]) => imagesFromMessages(messages, mode)),
+    ...archives.flatMap(session => imagesFromMessages(session.messages, session.mode, session.id))
+  ].sort((a, b) => b.timestamp - a.timestamp);
+
+  const seen = new Set<string>();
+  return all.filter(image => {
+    if (seen.has(image.url)) return false;
+    seen.add(image.url);
+    return true;
+  });
+};
+
+export const filterGalleryImages = (images: GeneratedImage[], filters: GalleryFilters, now: number = Date.now()): GeneratedImage[] => {
+  const since = rangeStart(filters.range, now);
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return images.filter(image => {
+    if (filters.mode !== 'all' && image.mode !== filters.mode) return false;
+    if (filters.likedOnly && !image.liked) return false;
+    if (image.timestamp < since) return false;
+    if (terms.length === 0) return true;
+    const text = `${image.prompt} ${image.originalPrompt || ''}`.toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+};
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+
+// Data URLs (and blob URLs) resolve locally, so fetch is just a decoder here
+const toTaggedBlob = async (image: GeneratedImage): Promise<Blob> => {
+  const blob = await (await fetch(image.url)).blob();
+  return image.recipe ? embedRecipe(blob, image.recipe) : blob;
+};
+
+const filenameFor = (image: GeneratedImage, index: number, type: string) =>
+  `pixfroge-${image.mode || 'image'}-${new Date(image.timestamp).toISOString().slice(0, 10)}-${index + 1}.${EXTENSIONS[type] || 'png'}`;
+
+/**
+ * Download one image as-is, or several as a zip. Recipes are embedded either way.
+ */
+export const downloadGalleryImages = async (images: GeneratedImage[]) => {
+  if (images.length === 0) return;
+
+  if (images.length === 1) {
+    const blob = await toTaggedBlob(images[0]);
+    downloadBlob(blob, filenameFor(images[0], 0, blob.type));
+    return;
+  }
+
+  const entries: ZipEntry[] = [];
+  for (const [index, image] of images.entries()) {
+    const blob = await toTaggedBlob(image);
+    entries.push({ name: filenameFor(image, index, blob.type), data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  downloadBlob(createZip(entries), `pixfroge-gallery-${Date.now()}.zip`);
+};
@@ -1,6 +1,10 @@
-import { GoogleGenAI } from "@google/genai";
-import { AppMode } from "../types";
+import { GenerateContentResponse, GoogleGenAI, Part } from "@google/genai";
+import { BrandKit, ImageProvider, ModeId, RefineContext, RequestOptions, StyleAnalysis, StylePreset } from "../types";
 import { memoryService } from "./memoryService";
+import { modeRegistry } from "./modeRegistry";
+import { isAbortError } from "./abortUtils";
+import { rateLimiter } from "./rateLimiter";
+import { GenerationError, formatSafetyCategory, isSafetyReason, toGenerationError } from "./errors";
 
 // ============================================================================
 //  API KEY CONFIGURATION
@@ -12,49 +16,68 @@ const getAiClient = () => {
   
   if (!apiKey) {
     console.error("API Key is missing! Please check your environment variables.");
+    throw new GenerationError('auth', "API Key is missing in the configuration.");
   }
   
-  return new GoogleGenAI({ apiKey: apiKey || "" });
+  return new GoogleGenAI({ apiKey });
 };
 
 // ============================================================================
-//  RETRY LOGIC (QUOTA MANAGER)
+//  MODELS
 // ============================================================================
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Every call is queued through the shared rate limiter, keyed by model, so
+// refinement and image requests draw on the same per-model budget.
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const PRO_IMAGE_MODEL = 'gemini-3-pro-image-preview';
 
-async function retryOperation<T>(operation: () => Promise<T>, retries = 3): Promise<T> {
-  try {
-    return await operation();
-  } catch (error: any) {
-    console.error("Gemini Operation Error Details:", error);
-    
-    // Detect Quota Exceeded (429)
-    const isQuotaError = 
-      error.status === 429 || 
-      error.code === 429 || 
-      (error.message && error.message.includes('429')) || 
-      (error.message && error.message.includes('quota'));
-
-    if (isQuotaError && retries > 0) {
-      const waitTime = 15000; 
-      console.warn(`[PixFrog AI] Quota Hit. Cooling down for ${waitTime/1000}s...`);
-      await sleep(waitTime);
-      return retryOperation(operation, retries - 1);
-    }
-    
-    if ((error.status === 503 || error.code === 503) && retries > 0) {
-       await sleep(5000);
-       return retryOperation(operation, retries - 1);
+/**
+ * Pull the image out of a response, or explain precisely why there isn't one.
+ */
+const extractImage = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('safety', response.promptFeedback.blockReasonMessage || "The prompt was blocked.", {
+      finishReason: blockReason,
+      category: formatSafetyCategory(response.promptFeedback.safetyRatings?.find(r => r.blocked)?.category)
+    });
+  }
+
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:image/png;base64,${part.inlineData.data}`;
     }
+  }
 
-    throw error;
+  const finishReason = candidate?.finishReason;
+  if (isSafetyReason(finishReason)) {
+    throw new GenerationError('safety', "The image was blocked by safety filters.", {
+      finishReason,
+      category: formatSafetyCategory(candidate?.safetyRatings?.find(r => r.blocked)?.category)
+    });
   }
-}
+  throw new GenerationError('empty-response', "No image data returned from API.", { finishReason });
+};
+
+/**
+ * A data URL as an inline request part.
+ */
+const toImagePart = (img: string) => {
+  const mimeMatch = img.match(/^data:(image\/\w+);base64,/);
+  const mimeType = mimeMatch ? mimeMatch[1] : 'image/png';
+  const cleanData = img.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+  return { inlineData: { data: cleanData, mimeType: mimeType } };
+};
 
 // ============================================================================
 //  PROMPT ENGINEERING (Text)
 // ============================================================================
-const SYSTEM_INSTRUCTION_BASE = `
+/**
+ * System prompt for refinement; the mode strategies come from the mode registry,
+ * so custom modes are described alongside the built-in ones.
+ */
+const buildSystemInstruction = (): string => `
 You are an expert Prompt Engineer for generative AI models. 
 Your task is to take a raw user description and transform it into a professional, high-fidelity image generation prompt based on the selected "App Mode".
 
@@ -67,133 +90,276 @@ Your task is to take a raw user description and transform it into a professional
 If the user asks for text to be written, format it as: text "SALE", in bold typography.
 
 ### MODE STRATEGIES:
-1. **YouTube Thumbnail** (${AppMode.THUMBNAIL}): High CTR, vibrant, expressive.
-2. **Logo Design** (${AppMode.LOGO}): Vector art, minimalist, white background.
-3. **Background Remover** (${AppMode.BG_REMOVER}): Isolated on solid white background.
-4. **Social Banner** (${AppMode.BANNER}): Wide angle, aesthetic.
-5. **Poster** (${AppMode.POSTER}): Vertical, cinematic.
-6. **Avatar** (${AppMode.AVATAR}): Headshot, centered.
-7. **General** (${AppMode.GENERAL}): High quality digital art.
+${modeRegistry.list().map((mode, i) => `${i + 1}. **${mode.name}**: ${mode.strategy}`).join('\n')}
 
 ### OUTPUT FORMAT:
 Return ONLY the final refined prompt string. Do not add explanations.
 `;
 
-export const refinePrompt = async (userInput: string, mode: AppMode, hasImages: boolean = false): Promise<string> => {
-  return retryOperation(async () => {
-    try {
-      const ai = getAiClient();
-      const learnedContext = memoryService.recall(mode);
-      
-      const context = hasImages 
-        ? `Task: Image-to-Image Prompt.\nApp Mode: ${mode}\nUser Input: "${userInput}"`
-        : `Task: Text-to-Image Prompt.\nApp Mode: ${mode}\nUser Input: "${userInput}"`;
+/**
+ * Brand guidelines appended to every refinement while a brand kit is active.
+ */
+const describeBrandKit = (kit: BrandKit): string => {
+  const lines = [`Brand guidelines ("${kit.name}") — follow them unless the user asks otherwise:`];
+  if (kit.palette.length > 0) {
+    lines.push(`- Color palette: ${kit.palette.join(', ')} (first is primary). Make these the dominant colors.`);
+  }
+  if (kit.toneWords.length > 0) {
+    lines.push(`- Tone: ${kit.toneWords.join(', ')}.`);
+  }
+  if (kit.fonts.length > 0) {
+    lines.push(`- Typography: any rendered text should look like ${kit.fonts.join(' / ')}.`);
+  }
+  if (kit.logo) {
+    lines.push(`- The LAST attached image is the brand logo, not the subject. Reproduce it faithfully where a logo fits naturally; never restyle it.`);
+  }
+  return lines.join('\n');
+};
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash', 
-        contents: context,
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION_BASE + learnedContext,
-          temperature: 0.7,
-        },
-      });
+/**
+ * The chosen style preset. It sets the look; the mode still sets composition and format.
+ */
+const describeStyle = (style: StylePreset): string => {
+  const lines = [
+    `Visual style: ${style.name} — ${style.fragment}`,
+    "Write the prompt in this style; it overrides the mode's default look where they conflict."
+  ];
+  if (style.palette?.length) {
+    lines.push(`Palette: ${style.palette.join(', ')}`);
+  }
+  if (style.negative) {
+    lines.push(`Steer away from: ${style.negative}. Phrase this positively in the prompt (describe what to show instead) rather than as a list of negatives.`);
+  }
+  return lines.join('\n');
+};
 
-      return response.text?.trim() || userInput;
-    } catch (error) {
-      console.warn("Prompt refinement skipped, using raw input. Error:", error);
-      return userInput;
-    }
-  }, 1); 
+/**
+ * The user-turn text sent for refinement: task type, mode, request, chat context, style and brand.
+ */
+const buildRefineRequest = (userInput: string, mode: ModeId, context: RefineContext): string => {
+  const task = context.isEdit
+    ? 'Task: Follow-up Edit Prompt.'
+    : context.hasImages ? 'Task: Image-to-Image Prompt.' : 'Task: Text-to-Image Prompt.';
+  let request = `${task}\nApp Mode: ${modeRegistry.get(mode).name}\nUser Input: "${userInput}"`;
+
+  if (context.history) {
+    request += `\n\nEarlier turns in this chat (oldest first):\n${context.history}\nUse them to resolve references like "it" or "the background".`;
+  }
+  if (context.isEdit) {
+    request += `\n\nThe previous image is attached as the base. Write an edit instruction that applies ONLY the requested change and keeps the subject, composition and style otherwise identical.`;
+  }
+  if (context.style) {
+    request += `\n\n${describeStyle(context.style)}`;
+  }
+  if (context.brandKit) {
+    request += `\n\n${describeBrandKit(context.brandKit)}`;
+  }
+  return request;
+};
+
+export const refinePrompt = async (
+  userInput: string,
+  mode: ModeId,
+  context: RefineContext = {},
+  options: RequestOptions = {}
+): Promise<string> => {
+  try {
+    const ai = getAiClient();
+    const learnedContext = memoryService.recall(mode, userInput);
+    
+    const request = buildRefineRequest(userInput, mode, context);
+
+    const response = await rateLimiter.schedule(TEXT_MODEL, () => ai.models.generateContent({
+      model: TEXT_MODEL, 
+      contents: request,
+      config: {
+        systemInstruction: buildSystemInstruction() + learnedContext,
+        temperature: 0.7,
+        abortSignal: options.signal,
+      },
+    }), { ...options, retries: 1 });
+
+    return response.text?.trim() || userInput;
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.warn("Prompt refinement skipped, using raw input. Error:", error);
+    return userInput;
+  }
+};
+
+export const refinePromptAlternatives = async (
+  userInput: string,
+  mode: ModeId,
+  count: number,
+  context: RefineContext = {},
+  options: RequestOptions = {}
+): Promise<string[]> => {
+  try {
+    const ai = getAiClient();
+    const learnedContext = memoryService.recall(mode, userInput);
+
+    const request = `${buildRefineRequest(userInput, mode, context)}
+
+Write ${count} DISTINCT refined prompts for this request, each taking a different creative direction (composition, lighting, palette).
+Return them as a JSON array of ${count} strings and nothing else.`;
+
+    const response = await rateLimiter.schedule(TEXT_MODEL, () => ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: request,
+      config: {
+        systemInstruction: buildSystemInstruction() + learnedContext,
+        temperature: 0.9,
+        responseMimeType: 'application/json',
+        abortSignal: options.signal,
+      },
+    }), { ...options, retries: 1 });
+
+    const parsed = JSON.parse(response.text || '[]');
+    const prompts = Array.isArray(parsed)
+      ? parsed.filter((p): p is string => typeof p === 'string' && p.trim().length > 0).map(p => p.trim())
+      : [];
+    if (prompts.length === 0) throw new Error("No alternatives returned.");
+    return prompts.slice(0, count);
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.warn("Alternative refinements unavailable, using a single refinement. Error:", error);
+    return [await refinePrompt(userInput, mode, context, options)];
+  }
 };
 
 // ============================================================================
 //  IMAGE GENERATION
 // ============================================================================
 
-export const generateImage = async (
-  prompt: string, 
-  aspectRatio: string = '1:1',
-  highQuality: boolean = false
+/**
+ * One image request. Pro is tried first when asked for, with Flash as the
+ * fallback; the model that answered is reported through `onModel`.
+ */
+const runImageModel = async (
+  parts: Part[],
+  aspectRatio: string,
+  highQuality: boolean,
+  options: RequestOptions
 ): Promise<string | null> => {
   const ai = getAiClient();
 
   const attemptGen = async (usePro: boolean): Promise<string | null> => {
-    return retryOperation(async () => {
-        try {
-            const model = usePro ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-            console.log(`Generating image with model: ${model}`);
-            
-            const config: any = {
-                imageConfig: { aspectRatio: aspectRatio }
-            };
-            
-            const response = await ai.models.generateContent({
-                model: model,
-                contents: { parts: [{ text: prompt }] },
-                config: config
-            });
-
-            if (response.candidates && response.candidates[0].content.parts) {
-                for (const part of response.candidates[0].content.parts) {
-                    if (part.inlineData) {
-                        return `data:image/png;base64,${part.inlineData.data}`;
-                    }
-                }
-            }
-            return null;
-        } catch (error: any) {
-            // If Pro model fails (often due to lack of billing or permissions), fallback to Flash
-            if (usePro) {
-                console.warn(`Pro model failed (${error.message}). Falling back to Flash...`);
-                return attemptGen(false);
-            }
-            throw error; 
+    const model = usePro ? PRO_IMAGE_MODEL : IMAGE_MODEL;
+    try {
+      console.log(`Generating image with model: ${model}`);
+      
+      const response = await rateLimiter.schedule(model, () => ai.models.generateContent({
+        model: model,
+        contents: { parts },
+        config: {
+          imageConfig: { aspectRatio: aspectRatio },
+          abortSignal: options.signal
         }
-    }, 2);
+      }), {
+        ...options,
+        // Pro gets one shot; Flash is the fallback, not a retry loop on a model we may lack access to
+        retries: usePro ? 0 : 2
+      });
+
+      const image = extractImage(response);
+      options.onModel?.(model, highQuality && !usePro ? PRO_IMAGE_MODEL : undefined);
+      return image;
+    } catch (error: any) {
+      // If Pro model fails (often due to lack of billing or permissions), fallback to Flash
+      if (usePro && !isAbortError(error) && !options.signal?.aborted) {
+        console.warn(`Pro model failed (${error.message}). Falling back to Flash...`);
+        return attemptGen(false);
+      }
+      throw toGenerationError(error); 
+    }
   };
 
   return attemptGen(highQuality);
 };
 
+export const generateImage = async (
+  prompt: string, 
+  aspectRatio: string = '1:1',
+  highQuality: boolean = false,
+  _variant?: number,
+  options: RequestOptions = {}
+): Promise<string | null> => runImageModel([{ text: prompt }], aspectRatio, highQuality, options);
+
 export const generateWithImages = async (
   base64Images: string[], 
   prompt: string,
-  aspectRatio: string = '1:1'
+  aspectRatio: string = '1:1',
+  highQuality: boolean = false,
+  _variant?: number,
+  options: RequestOptions = {}
 ): Promise<string | null> => {
-  return retryOperation(async () => {
-    try {
-      const ai = getAiClient();
-      const parts: any[] = [];
-
-      base64Images.forEach((img) => {
-        const mimeMatch = img.match(/^data:(image\/\w+);base64,/);
-        const mimeType = mimeMatch ? mimeMatch[1] : 'image/png';
-        const cleanData = img.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+  try {
+    return await runImageModel([...base64Images.map(toImagePart), { text: prompt }], aspectRatio, highQuality, options);
+  } catch (error) {
+    console.error("Error generating with images:", error);
+    throw error;
+  }
+};
 
-        parts.push({
-          inlineData: { data: cleanData, mimeType: mimeType },
-        });
-      });
+// ============================================================================
+//  STYLE ANALYSIS
+// ============================================================================
+const STYLE_ANALYSIS_INSTRUCTION = `
+You are an art director describing the visual style of a reference image so another designer can reproduce the LOOK on a completely different subject.
+Describe style only: never mention the subject, people, brands or any text content shown.
+Return a JSON object with these string fields and nothing else:
+- "name": a 2-3 word name for the style, e.g. "Neon Noir" or "Pastel Risograph"
+- "medium": the medium or rendering technique (photo, 3D render, gouache, vector, etc.)
+- "palette": the color palette and how it is used (contrast, saturation, accents)
+- "lighting": light direction, quality and mood
+- "composition": framing, camera angle, depth and use of space
+- "typography": lettering style if the image contains text, otherwise an empty string
+- "negative": a few comma-separated qualities that would break this style
+`;
 
-      parts.push({ text: prompt });
+export const analyzeStyle = async (base64Image: string, options: RequestOptions = {}): Promise<StyleAnalysis> => {
+  try {
+    const ai = getAiClient();
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image', 
-        contents: { parts: parts },
-        config: { imageConfig: { aspectRatio: aspectRatio } }
-      });
+    const response = await rateLimiter.schedule(TEXT_MODEL, () => ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: { parts: [toImagePart(base64Image), { text: "Describe this image's visual style." }] },
+      config: {
+        systemInstruction: STYLE_ANALYSIS_INSTRUCTION,
+        temperature: 0.4,
+        responseMimeType: 'application/json',
+        abortSignal: options.signal,
+      },
+    }), { ...options, retries: 1 });
 
-       if (response.candidates && response.candidates[0].content.parts) {
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) {
-            return `data:image/png;base64,${part.inlineData.data}`;
-          }
-        }
-      }
-      return null;
-    } catch (error) {
-      console.error("Error generating with images:", error);
-      throw error;
+    const parsed = JSON.parse(response.text || '{}');
+    const field = (key: string) => (typeof parsed?.[key] === 'string' ? parsed[key].trim() : '');
+    if (!field('medium') && !field('palette')) {
+      throw new GenerationError('empty-response', "The model didn't return a style description.");
     }
-  }, 2);
-};
\ No newline at end of file
+
+    return {
+      name: field('name') || 'Reference Style',
+      medium: field('medium'),
+      palette: field('palette'),
+      lighting: field('lighting'),
+      composition: field('composition'),
+      typography: field('typography') || undefined,
+      negative: field('negative') || undefined
+    };
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("Style analysis failed:", error);
+    throw toGenerationError(error);
+  }
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  refinePrompt,
+  refinePromptAlternatives,
+  generateImage,
+  generateWithImages,
+  analyzeStyle
+};
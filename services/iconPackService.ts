@@ -0,0 +1,145 @@
+import { createCanvas, loadImage } from "./imageUtils";
+import { createZip, ZipEntry } from "./zipService";
+
+// ============================================================================
+//  FAVICON & APP ICON PACK
+// ============================================================================
+export interface IconPackOptions {
+  appName: string;
+  backgroundColor: string; // Used for apple-touch and maskable icons, which must be opaque
+  themeColor: string;
+  maskablePadding: number; // Percent of the icon kept clear around the artwork (maskable safe zone)
+}
+
+export const DEFAULT_ICON_PACK_OPTIONS: IconPackOptions = {
+  appName: 'My App',
+  backgroundColor: '#ffffff',
+  themeColor: '#0f172a',
+  maskablePadding: 20
+};
+
+// Android masks may crop to a circle of 80% diameter; artwork must fit inside
+export const MASKABLE_SAFE_ZONE = 0.8;
+
+const FAVICON_SIZES = [16, 32, 48];
+
+interface IconSpec {
+  name: string;
+  size: number;
+  opaque: boolean;
+  padding: number; // Percent
+}
+
+const iconSpecs = (options: IconPackOptions): IconSpec[] => [
+  ...FAVICON_SIZES.map(size => ({ name: `favicon-${size}x${size}.png`, size, opaque: false, padding: 0 })),
+  { name: 'apple-touch-icon.png', size: 180, opaque: true, padding: 8 },
+  { name: 'android-chrome-192x192.png', size: 192, opaque: false, padding: 0 },
+  { name: 'android-chrome-512x512.png', size: 512, opaque: false, padding: 0 },
+  { name: 'maskable-icon-192x192.png', size: 192, opaque: true, padding: options.maskablePadding },
+  { name: 'maskable-icon-512x512.png', size: 512, opaque: true, padding: options.maskablePadding }
+];
+
+/**
+ * Draw the artwork centered in a square icon, scaled to fit inside the padding.
+ */
+export const renderIcon = async (src: string, size: number, padding: number, background?: string): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const { canvas, ctx } = createCanvas(size, size);
+  ctx.imageSmoothingQuality = 'high';
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, size, size);
+  }
+
+  const inner = size * (1 - (2 * padding) / 100);
+  const scale = Math.min(inner / img.naturalWidth, inner / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  ctx.drawImage(img, (size - w) / 2, (size - h) / 2, w, h);
+  return canvas;
+};
+
+const canvasToPng = async (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error("Icon encoding failed.");
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+/**
+ * Pack PNG images into a multi-resolution .ico (PNG-compressed entries,
+ * supported by every current browser).
+ */
+export const createIco = (images: Array<{ size: number; png: Uint8Array }>): Uint8Array => {
+  const headerSize = 6 + images.length * 16;
+  const total = headerSize + images.reduce((sum, i) => sum + i.png.length, 0);
+  const buffer = new Uint8Array(total);
+  const view = new DataView(buffer.buffer);
+
+  view.setUint16(0, 0, true);  // Reserved
+  view.setUint16(2, 1, true);  // Type: icon
+  view.setUint16(4, images.length, true);
+
+  let offset = headerSize;
+  images.forEach((image, i) => {
+    const entry = 6 + i * 16;
+    view.setUint8(entry, image.size >= 256 ? 0 : image.size);
+    view.setUint8(entry + 1, image.size >= 256 ? 0 : image.size);
+    view.setUint8(entry + 2, 0);     // No palette
+    view.setUint8(entry + 3, 0);     // Reserved
+    view.setUint16(entry + 4, 1, true);  // Color planes
+    view.setUint16(entry + 6, 32, true); // Bits per pixel
+    view.setUint32(entry + 8, image.png.length, true);
+    view.setUint32(entry + 12, offset, true);
+    buffer.set(image.png, offset);
+    offset += image.png.length;
+  });
+
+  return buffer;
+};
+
+export const buildWebManifest = (options: IconPackOptions): string => JSON.stringify({
+  name: options.appName,
+  short_name: options.appName.slice(0, 12),
+  icons: [
+    { src: '/android-chrome-192x192.png', sizes: '192x192', type: 'image/png' },
+    { src: '/android-chrome-512x512.png', sizes: '512x512', type: 'image/png' },
+    { src: '/maskable-icon-192x192.png', sizes: '192x192', type: 'image/png', purpose: 'maskable' },
+    { src: '/maskable-icon-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+  ],
+  theme_color: options.themeColor,
+  background_color: options.backgroundColor,
+  display: 'standalone'
+}, null, 2);
+
+export const buildHeadSnippet = (options: IconPackOptions): string => [
+  '<link rel="icon" href="/favicon.ico" sizes="48x48">',
+  '<link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png">',
+  '<link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png">',
+  '<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon.png">',
+  '<link rel="manifest" href="/site.webmanifest">',
+  `<meta name="theme-color" content="${options.themeColor}">`
+].join('\n');
+
+/**
+ * Render the complete icon set and bundle it as a zip.
+ */
+export const buildIconPack = async (src: string, options: IconPackOptions): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const faviconPngs: Array<{ size: number; png: Uint8Array }> = [];
+
+  for (const spec of iconSpecs(options)) {
+    const canvas = await renderIcon(src, spec.size, spec.padding, spec.opaque ? options.backgroundColor : undefined);
+    const png = await canvasToPng(canvas);
+    entries.push({ name: spec.name, data: png });
+    if (FAVICON_SIZES.includes(spec.size) && spec.name.startsWith('favicon')) {
+      faviconPngs.push({ size: spec.size, png });
+    }
+  }
+
+  entries.push({ name: 'favicon.ico', data: createIco(faviconPngs) });
+  entries.push({ name: 'site.webmanifest', data: buildWebManifest(options) });
+  entries.push({ name: 'head-snippet.html', data: buildHeadSnippet(options) });
+
+  return createZip(entries);
+};
@@ -0,0 +1,325 @@
+import { ChatMessage, ImageRecipe, ModeId } from "../types";
+import { modeRegistry } from "./modeRegistry";
+import { crc32 } from "./zipService";
+
+// ============================================================================
+//  EMBEDDED RECIPES
+// ============================================================================
+// Exports carry the prompt and settings they were made with: PNG as tEXt /
+// iTXt chunks, JPEG and WebP as an XMP packet. The full recipe is stored as
+// JSON (iTXt "pixfrog:recipe" / XMP attribute pixfrog:recipe) so a file
+// dropped back into the chat can restore it; the standard fields are there
+// for other tools to show.
+
+const SOFTWARE = 'PixFrog AI Studio';
+const RECIPE_KEYWORD = 'pixfrog:recipe';
+const XMP_NAMESPACE = 'urn:pixfrog:recipe:1';
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+// APP1 length field is 16 bits and counts itself
+const JPEG_MAX_SEGMENT = 0xffff - 2;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** The recipe for a generated message, or nothing for messages without a prompt. */
+export const buildRecipe = (message: ChatMessage, mode: ModeId): ImageRecipe | undefined => {
+  const metadata = message.metadata;
+  if (!metadata?.finalPrompt && !metadata?.originalPrompt) return undefined;
+  const provenance = metadata.provenance;
+  return {
+    app: 'pixfrog',
+    version: 1,
+    mode,
+    modeName: modeRegistry.get(mode).name,
+    originalPrompt: metadata.originalPrompt,
+    finalPrompt: metadata.finalPrompt,
+    settings: provenance && {
+      aspectRatio: provenance.aspectRatio,
+      highQuality: provenance.highQuality,
+      variations: provenance.variations,
+      style: provenance.style
+    },
+    provider: provenance?.provider,
+    model: provenance?.model,
+    styleName: provenance?.styleName,
+    createdAt: provenance?.createdAt ?? message.timestamp
+  };
+};
+
+const optionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isRecipe = (value: any): value is ImageRecipe =>
+  !!value && value.app === 'pixfrog' && typeof value.mode === 'string' &&
+  optionalString(value.originalPrompt) && optionalString(value.finalPrompt);
+
+const parseRecipe = (json: string): ImageRecipe | null => {
+  try {
+    const parsed = JSON.parse(json);
+    return isRecipe(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const latin1 = (text: string): Uint8Array =>
+  Uint8Array.from(text, c => (c.charCodeAt(0) < 256 ? c.charCodeAt(0) : 63));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+// ----------------------------------------------------------------------------
+//  PNG
+// ----------------------------------------------------------------------------
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(latin1(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+const textChunk = (keyword: string, text: string) =>
+  pngChunk('tEXt', concat([latin1(keyword), new Uint8Array([0]), latin1(text)]));
+
+// Uncompressed, untagged international text (UTF-8)
+const iTextChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+const embedPng = (bytes: Uint8Array, recipe: ImageRecipe): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length && fourCC(bytes, offset + 4) !== 'IEND') {
+    offset += 12 + view.getUint32(offset);
+  }
+  if (offset + 8 > bytes.length) throw new Error("PNG has no IEND chunk.");
+
+  const chunks = [textChunk('Software', SOFTWARE)];
+  if (recipe.originalPrompt) chunks.push(iTextChunk('Title', recipe.originalPrompt));
+  if (recipe.finalPrompt) chunks.push(iTextChunk('Description', recipe.finalPrompt));
+  chunks.push(iTextChunk(RECIPE_KEYWORD, JSON.stringify(recipe)));
+
+  return concat([bytes.subarray(0, offset), ...chunks, bytes.subarray(offset)]);
+};
+
+const readPng = (bytes: Uint8Array): ImageRecipe | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    if (type === 'IEND') break;
+    if (type === 'iTXt') {
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      const keywordEnd = data.indexOf(0);
+      const keyword = decoder.decode(data.subarray(0, keywordEnd));
+      // Only the uncompressed form is ever written
+      if (keyword === RECIPE_KEYWORD && data[keywordEnd + 1] === 0) {
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        return parseRecipe(decoder.decode(data.subarray(translatedEnd + 1)));
+      }
+    }
+    offset += 12 + length;
+  }
+  return null;
+};
+
+// ----------------------------------------------------------------------------
+//  XMP (JPEG and WebP)
+// ----------------------------------------------------------------------------
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const buildXmp = (recipe: ImageRecipe): string => {
+  const description = recipe.finalPrompt
+    ? `\n   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(recipe.finalPrompt)}</rdf:li></rdf:Alt></dc:description>`
+    : '';
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:pixfrog="${XMP_NAMESPACE}"
+    xmp:CreatorTool="${SOFTWARE}"
+    xmp:CreateDate="${new Date(recipe.createdAt ?? Date.now()).toISOString()}"
+    pixfrog:recipe="${escapeXml(JSON.stringify(recipe))}">${description}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const readXmp = (xmp: string): ImageRecipe | null => {
+  const match = xmp.match(/pixfrog:recipe="([^"]*)"/);
+  return match ? parseRecipe(unescapeXml(match[1])) : null;
+};
+
+// ----------------------------------------------------------------------------
+//  JPEG
+// ----------------------------------------------------------------------------
+const embedJpeg = (bytes: Uint8Array, recipe: ImageRecipe): Uint8Array => {
+  const payload = concat([latin1(JPEG_XMP_HEADER), encoder.encode(buildXmp(recipe))]);
+  if (payload.length > JPEG_MAX_SEGMENT) throw new Error("Recipe is too large for a JPEG XMP segment.");
+
+  // XMP goes after SOI and any JFIF (APP0) segment
+  let offset = 2;
+  while (bytes[offset] === 0xff && bytes[offset + 1] === 0xe0) {
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+
+  const length = payload.length + 2;
+  const header = new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]);
+  return concat([bytes.subarray(0, offset), header, payload, bytes.subarray(offset)]);
+};
+
+const readJpeg = (bytes: Uint8Array): ImageRecipe | null => {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan / end of image: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1) {
+      const segment = bytes.subarray(offset + 4, offset + 2 + length);
+      if (decoder.decode(segment.subarray(0, JPEG_XMP_HEADER.length)) === JPEG_XMP_HEADER) {
+        const recipe = readXmp(decoder.decode(segment.subarray(JPEG_XMP_HEADER.length)));
+        if (recipe) return recipe;
+      }
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// ----------------------------------------------------------------------------
+//  WebP
+// ----------------------------------------------------------------------------
+// Metadata needs the extended format: a VP8X chunk up front with the XMP flag
+// set and the canvas size, and an "XMP " chunk at the end.
+const VP8X_XMP = 0x04;
+const VP8X_ALPHA = 0x10;
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const riffChunk = ({ type, data }: RiffChunk): Uint8Array => {
+  const out = new Uint8Array(8 + data.length + (data.length % 2));
+  out.set(latin1(type), 0);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const readWebpChunks = (bytes: Uint8Array): RiffChunk[] => {
+  if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') throw new Error("Not a WebP file.");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type: fourCC(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+// Canvas size and alpha of a simple (VP8 / VP8L) WebP
+const webpImageInfo = (chunk: RiffChunk): { width: number; height: number; alpha: boolean } => {
+  const d = chunk.data;
+  if (chunk.type === 'VP8L') {
+    const bits = (d[1] | (d[2] << 8) | (d[3] << 16) | (d[4] << 24)) >>> 0;
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+  }
+  if (chunk.type === 'VP8 ') {
+    return { width: (d[6] | (d[7] << 8)) & 0x3fff, height: (d[8] | (d[9] << 8)) & 0x3fff, alpha: false };
+  }
+  throw new Error(`Unexpected WebP chunk ${chunk.type}.`);
+};
+
+const embedWebp = (bytes: Uint8Array, recipe: ImageRecipe): Uint8Array => {
+  let chunks = readWebpChunks(bytes).filter(c => c.type !== 'XMP ');
+
+  if (chunks[0]?.type === 'VP8X') {
+    const vp8x = new Uint8Array(chunks[0].data);
+    vp8x[0] |= VP8X_XMP;
+    chunks[0] = { type: 'VP8X', data: vp8x };
+  } else {
+    const { width, height, alpha } = webpImageInfo(chunks[0]);
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = VP8X_XMP | (alpha ? VP8X_ALPHA : 0);
+    [width - 1, height - 1].forEach((value, i) => {
+      vp8x[4 + i * 3] = value & 0xff;
+      vp8x[5 + i * 3] = (value >> 8) & 0xff;
+      vp8x[6 + i * 3] = (value >> 16) & 0xff;
+    });
+    chunks = [{ type: 'VP8X', data: vp8x }, ...chunks];
+  }
+  chunks.push({ type: 'XMP ', data: encoder.encode(buildXmp(recipe)) });
+
+  const body = concat(chunks.map(riffChunk));
+  const header = new Uint8Array(12);
+  header.set(latin1('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(latin1('WEBP'), 8);
+  return concat([header, body]);
+};
+
+const readWebp = (bytes: Uint8Array): ImageRecipe | null => {
+  const xmp = readWebpChunks(bytes).find(c => c.type === 'XMP ');
+  return xmp ? readXmp(decoder.decode(xmp.data)) : null;
+};
+
+// ----------------------------------------------------------------------------
+//  Public API
+// ----------------------------------------------------------------------------
+/**
+ * Write the recipe into an encoded PNG, JPEG or WebP. Metadata is best
+ * effort: anything unexpected leaves the image untouched.
+ */
+export const embedRecipe = async (blob: Blob, recipe: ImageRecipe): Promise<Blob> => {
+  try {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const embed = { 'image/png': embedPng, 'image/jpeg': embedJpeg, 'image/webp': embedWebp }[blob.type];
+    if (!embed) return blob;
+    return new Blob([embed(bytes, recipe)], { type: blob.type });
+  } catch (e) {
+    console.warn("Couldn't embed the recipe; exporting without metadata.", e);
+    return blob;
+  }
+};
+
+/**
+ * The recipe embedded in an exported file, or null for any other image.
+ */
+export const readRecipe = async (file: Blob): Promise<ImageRecipe | null> => {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return readPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpeg(bytes);
+    if (fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP') return readWebp(bytes);
+    return null;
+  } catch (e) {
+    console.warn("Couldn't read image metadata", e);
+    return null;
+  }
+};
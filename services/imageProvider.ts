@@ -0,0 +1,25 @@
+import { ImageProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+// ============================================================================
+//  PROVIDER SELECTION
+// ============================================================================
+// Set IMAGE_PROVIDER in .env.local (e.g. IMAGE_PROVIDER=mock) to choose the
+// backend. Defaults to Gemini.
+const providers: Record<string, ImageProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider
+};
+
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+export const listImageProviders = (): ImageProvider[] => Object.values(providers);
+
+export const getImageProvider = (): ImageProvider => {
+  const configured = (process.env.IMAGE_PROVIDER || '').trim().toLowerCase();
+  if (configured && !providers[configured]) {
+    console.warn(`Unknown IMAGE_PROVIDER "${configured}". Falling back to ${DEFAULT_PROVIDER_ID}.`);
+  }
+  return providers[configured] || providers[DEFAULT_PROVIDER_ID];
+};
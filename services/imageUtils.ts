@@ -0,0 +1,59 @@
+import { AspectRatio } from "../types";
+
+// ============================================================================
+//  CANVAS HELPERS
+// ============================================================================
+// Shared by every client-side image post-processing step.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image."));
+    img.src = src;
+  });
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  return { canvas, ctx };
+};
+
+/** Decode an image URL into a canvas at its natural size. */
+export const imageToCanvas = async (src: string) => {
+  const img = await loadImage(src);
+  const result = createCanvas(img.naturalWidth, img.naturalHeight);
+  result.ctx.drawImage(img, 0, 0);
+  return result;
+};
+
+/** Shrink an image so its longer side is at most `maxSide`, re-encoded as PNG. */
+export const downscaleImage = async (src: string, maxSide: number): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+  const { canvas, ctx } = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+const SUPPORTED_ASPECT_RATIOS: Array<[AspectRatio, number]> = [
+  ['1:1', 1],
+  ['16:9', 16 / 9],
+  ['9:16', 9 / 16],
+  ['3:4', 3 / 4],
+  ['4:3', 4 / 3]
+];
+
+/** Pick the model-supported aspect ratio closest to the given dimensions. */
+export const closestAspectRatio = (width: number, height: number): AspectRatio => {
+  const ratio = width / height;
+  let best = SUPPORTED_ASPECT_RATIOS[0];
+  for (const candidate of SUPPORTED_ASPECT_RATIOS) {
+    if (Math.abs(Math.log(candidate[1] / ratio)) < Math.abs(Math.log(best[1] / ratio))) best = candidate;
+  }
+  return best[0];
+};
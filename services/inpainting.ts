@@ -0,0 +1,77 @@
+import { createCanvas, imageToCanvas, loadImage } from "./imageUtils";
+
+// ============================================================================
+//  MASK-BASED INPAINTING
+// ============================================================================
+// The model receives the source image, a black/white mask (white = editable)
+// and an instruction. Its output is then composited back so that every pixel
+// outside the mask is taken verbatim from the source.
+
+const MASK_FEATHER_PX = 4;
+
+export const buildInpaintPrompt = (instruction: string) => `
+You are given two images: a SOURCE image and a MASK image.
+In the mask, WHITE marks the region to change and BLACK marks pixels that must stay exactly as they are.
+Edit ONLY the white region of the source image: ${instruction.trim()}.
+Match the surrounding lighting, perspective, colors and texture so the edit blends seamlessly.
+Return the full image at the same framing as the source.`.trim();
+
+/**
+ * Convert a painted mask (any opaque pixel = selected) into a white-on-black PNG.
+ */
+export const maskToImage = (mask: HTMLCanvasElement): string => {
+  const { canvas, ctx } = createCanvas(mask.width, mask.height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+
+  const source = mask.getContext('2d')?.getImageData(0, 0, mask.width, mask.height);
+  if (!source) return canvas.toDataURL('image/png');
+
+  const output = ctx.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 0; i < source.data.length; i += 4) {
+    if (source.data[i + 3] > 0) {
+      output.data[i] = output.data[i + 1] = output.data[i + 2] = 255;
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Blend the generated image into the source inside the mask only.
+ * The feather is applied inward, so unmasked pixels are guaranteed unchanged.
+ */
+export const compositeInpaint = async (sourceSrc: string, generatedSrc: string, maskSrc: string): Promise<string> => {
+  const { canvas, ctx } = await imageToCanvas(sourceSrc);
+  const { width, height } = canvas;
+
+  // The model may return a different resolution; stretch back onto the source grid
+  const generated = await loadImage(generatedSrc);
+  const genLayer = createCanvas(width, height);
+  genLayer.ctx.drawImage(generated, 0, 0, width, height);
+
+  const maskImg = await loadImage(maskSrc);
+  const maskLayer = createCanvas(width, height);
+  maskLayer.ctx.drawImage(maskImg, 0, 0, width, height);
+
+  // Blurred copy of the mask for soft edges
+  const blurLayer = createCanvas(width, height);
+  blurLayer.ctx.filter = `blur(${MASK_FEATHER_PX}px)`;
+  blurLayer.ctx.drawImage(maskLayer.canvas, 0, 0);
+
+  const source = ctx.getImageData(0, 0, width, height);
+  const gen = genLayer.ctx.getImageData(0, 0, width, height).data;
+  const hard = maskLayer.ctx.getImageData(0, 0, width, height).data;
+  const soft = blurLayer.ctx.getImageData(0, 0, width, height).data;
+
+  for (let i = 0; i < source.data.length; i += 4) {
+    if (hard[i] < 128) continue; // Outside the mask: keep the source pixel untouched
+    const weight = Math.min(1, Math.max(0, (soft[i] / 255 - 0.5) * 2)); // 0 at the mask edge, 1 deeper inside
+    for (let c = 0; c < 3; c++) {
+      source.data[i + c] = Math.round(source.data[i + c] * (1 - weight) + gen[i + c] * weight);
+    }
+  }
+
+  ctx.putImageData(source, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -1,14 +1,220 @@
-import { AppMode } from "../types";
+import { LearnedPattern, ModeId } from "../types";
 
-const STORAGE_KEY = 'pixfrog_brain_v1';
+const STORAGE_KEY = 'pixfrog_brain_v2';
+const LEGACY_STORAGE_KEY = 'pixfrog_brain_v1';
+const SCHEMA_VERSION = 2;
 
-interface LearnedPattern {
-  mode: AppMode;
-  userInput: string;
-  refinedPrompt: string;
-  timestamp: number;
+// Each mode keeps its own budget so a busy mode can't evict another mode's taste
+const MAX_PATTERNS_PER_MODE = 30;
+const RECALL_LIMIT = 5;
+const AVOID_RECALL_LIMIT = 3;
+
+// Quick-pick reasons offered with the dislike button
+export const DISLIKE_REASONS = [
+  'too cluttered',
+  'wrong colors',
+  'text garbled',
+  'off-topic subject',
+  'bad composition',
+  'looks low quality'
+];
+
+// Relevance vs. recency blend for recall ranking
+const SIMILARITY_WEIGHT = 0.7;
+const RECENCY_WEIGHT = 0.3;
+const RECENCY_HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** Thrown by `importBrain` when the file itself is unusable, as opposed to local storage failing. */
+export class InvalidMemoryFileError extends Error {
+  constructor() {
+    super("Not a PixFrog memory file.");
+    this.name = 'InvalidMemoryFileError';
+  }
 }
 
+interface BrainStore {
+  version: number;
+  patterns: LearnedPattern[];
+}
+
+// ============================================================================
+//  STORAGE + MIGRATION
+// ============================================================================
+const newPatternId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isPattern = (value: any): value is Omit<LearnedPattern, 'id'> & { id?: string } =>
+  value && typeof value.userInput === 'string' && typeof value.refinedPrompt === 'string' &&
+  typeof value.mode === 'string' && value.mode.length > 0;
+
+/**
+ * v1 was a bare array of patterns without ids under `pixfrog_brain_v1`.
+ */
+const migrateLegacyBrain = (): BrainStore | null => {
+  const legacyStr = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacyStr) return null;
+
+  const legacy: Array<Omit<LearnedPattern, 'id'>> = JSON.parse(legacyStr);
+  const store: BrainStore = {
+    version: SCHEMA_VERSION,
+    patterns: legacy.map(p => ({ ...p, id: newPatternId() }))
+  };
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`[Supervised Learning] Migrated ${store.patterns.length} patterns to schema v${SCHEMA_VERSION}`);
+  return store;
+};
+
+/**
+ * Validate a stored brain and bring it up to the current schema. Add a case
+ * per schema bump that upgrades the older shape one step. A store written by
+ * a newer build is refused rather than overwritten.
+ */
+const upgradeBrain = (stored: any): BrainStore => {
+  if (!stored || typeof stored !== 'object' || !Array.isArray(stored.patterns)) {
+    throw new Error("Unrecognized memory store.");
+  }
+  switch (stored.version) {
+    case SCHEMA_VERSION:
+      return {
+        version: SCHEMA_VERSION,
+        patterns: stored.patterns.filter((p: any) => isPattern(p) && typeof p.id === 'string')
+      };
+    default:
+      throw new Error(`Memory store version ${stored.version} is not supported (expected ${SCHEMA_VERSION}).`);
+  }
+};
+
+const loadBrain = (): BrainStore => {
+  const existingStr = localStorage.getItem(STORAGE_KEY);
+  if (existingStr) return upgradeBrain(JSON.parse(existingStr));
+  return migrateLegacyBrain() || { version: SCHEMA_VERSION, patterns: [] };
+};
+
+const saveBrain = (store: BrainStore) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+/**
+ * Drop the oldest unpinned patterns of any mode that is over its budget.
+ */
+const enforceBudget = (store: BrainStore): BrainStore => {
+  const evicted = new Set<string>();
+  new Set(store.patterns.map(p => p.mode)).forEach(mode => {
+    const evictable = store.patterns
+      .filter(p => p.mode === mode && !p.pinned)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const pinnedCount = store.patterns.filter(p => p.mode === mode && p.pinned).length;
+    const overflow = evictable.length + pinnedCount - MAX_PATTERNS_PER_MODE;
+    evictable.slice(0, Math.max(0, overflow)).forEach(p => evicted.add(p.id));
+  });
+  return { ...store, patterns: store.patterns.filter(p => !evicted.has(p.id)) };
+};
+
+// ============================================================================
+//  LEXICAL SIMILARITY (TF-IDF)
+// ============================================================================
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from', 'is', 'it',
+  'my', 'me', 'make', 'create', 'design', 'image', 'picture', 'please', 'some', 'that', 'this'
+]);
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+const termFrequencies = (tokens: string[]) => {
+  const tf = new Map<string, number>();
+  tokens.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+  return tf;
+};
+
+/**
+ * Cosine similarity between the query and each document, weighted by IDF
+ * computed over the candidate set.
+ */
+const tfidfSimilarities = (query: string, documents: string[]): number[] => {
+  const docTokens = documents.map(tokenize);
+  const queryTf = termFrequencies(tokenize(query));
+  if (queryTf.size === 0) return documents.map(() => 0);
+
+  const docFrequency = new Map<string, number>();
+  docTokens.forEach(tokens => new Set(tokens).forEach(t => docFrequency.set(t, (docFrequency.get(t) || 0) + 1)));
+  const idf = (term: string) => Math.log((documents.length + 1) / ((docFrequency.get(term) || 0) + 1)) + 1;
+
+  const weigh = (tf: Map<string, number>) => {
+    const vector = new Map<string, number>();
+    tf.forEach((count, term) => vector.set(term, count * idf(term)));
+    return vector;
+  };
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, w) => sum + w * w, 0));
+
+  const queryVector = weigh(queryTf);
+  const queryNorm = norm(queryVector);
+
+  return docTokens.map(tokens => {
+    const docVector = weigh(termFrequencies(tokens));
+    const docNorm = norm(docVector);
+    if (docNorm === 0) return 0;
+    let dot = 0;
+    queryVector.forEach((weight, term) => { dot += weight * (docVector.get(term) || 0); });
+    return dot / (queryNorm * docNorm);
+  });
+};
+
+const isDislike = (p: LearnedPattern) => p.sentiment === 'dislike';
+
+/**
+ * Rank a mode's patterns by similarity to the new request, blended with recency.
+ */
+const rankPatterns = (candidates: LearnedPattern[], userInput: string, limit: number): LearnedPattern[] => {
+  if (candidates.length === 0) return [];
+  const now = Date.now();
+  const similarities = tfidfSimilarities(
+    userInput,
+    candidates.map(m => `${m.userInput} ${m.userInput} ${m.refinedPrompt}`) // User wording counts double
+  );
+
+  return candidates
+    .map((m, i) => ({
+      memory: m,
+      // Pinned patterns always rank above the rest
+      score: (m.pinned ? 1 : 0) +
+             SIMILARITY_WEIGHT * similarities[i] +
+             RECENCY_WEIGHT * Math.pow(0.5, (now - m.timestamp) / RECENCY_HALF_LIFE_MS)
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(r => r.memory);
+};
+
+const recordPattern = (mode: ModeId, userInput: string, refinedPrompt: string, sentiment: 'like' | 'dislike', reasons: string[] = []) => {
+  try {
+    const brain = loadBrain();
+
+    // Avoid duplicates; a new verdict on the same pair replaces the old one
+    const existing = brain.patterns.find(b => b.userInput === userInput && b.refinedPrompt === refinedPrompt);
+    if (existing && (existing.sentiment || 'like') === sentiment) return;
+    if (existing) brain.patterns = brain.patterns.filter(b => b.id !== existing.id);
+
+    // Add new pattern
+    brain.patterns.push({
+      id: newPatternId(),
+      mode,
+      userInput,
+      refinedPrompt,
+      timestamp: Date.now(),
+      sentiment,
+      ...(reasons.length > 0 ? { reasons } : {})
+    });
+
+    // Per-mode budget: evict this mode's oldest unpinned patterns only
+    saveBrain(enforceBudget(brain));
+    console.log(`[Supervised Learning] Learned new ${sentiment} pattern for ${mode}`);
+  } catch (e) {
+    console.error("Failed to save to memory", e);
+  }
+};
+
 /**
  * Supervised Learning Module
  * "Teaches" the app by saving successful prompt pairs.
@@ -18,79 +224,169 @@ export const memoryService = {
    * Save a successful interaction (User Input -> Final Prompt)
    * This mimics "learning" from a positive outcome.
    */
-  learn: (mode: AppMode, userInput: string, refinedPrompt: string) => {
-    try {
-      const existingStr = localStorage.getItem(STORAGE_KEY);
-      const brain: LearnedPattern[] = existingStr ? JSON.parse(existingStr) : [];
-      
-      // Avoid duplicates
-      const isDuplicate = brain.some(b => b.userInput === userInput && b.refinedPrompt === refinedPrompt);
-      if (isDuplicate) return;
-
-      // Add new pattern
-      brain.push({
-        mode,
-        userInput,
-        refinedPrompt,
-        timestamp: Date.now()
-      });
-
-      // Keep memory efficient (last 20 successful patterns per mode is usually enough context)
-      // We filter global list to keep total size managed, but prioritization happens in recall
-      if (brain.length > 100) {
-        brain.shift();
-      }
+  learn: (mode: ModeId, userInput: string, refinedPrompt: string) => {
+    recordPattern(mode, userInput, refinedPrompt, 'like');
+  },
 
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(brain));
-      console.log(`[Supervised Learning] Learned new pattern for ${mode}`);
-    } catch (e) {
-      console.error("Failed to save to memory", e);
-    }
+  /**
+   * Save a rejected interaction with optional reasons, so refinement can steer away from it.
+   */
+  learnDislike: (mode: ModeId, userInput: string, refinedPrompt: string, reasons: string[] = []) => {
+    recordPattern(mode, userInput, refinedPrompt, 'dislike', reasons);
   },
 
   /**
-   * Recall relevant past successes to guide the AI.
-   * This provides the "Context" for the AI to understand what works.
+   * Recall relevant past successes (and the closest rejections) to guide the AI.
+   * Patterns are ranked by similarity to the new request, blended with recency.
    */
-  recall: (mode: AppMode): string => {
+  recall: (mode: ModeId, userInput: string = ""): string => {
     try {
-      const existingStr = localStorage.getItem(STORAGE_KEY);
-      if (!existingStr) return "";
-
-      const brain: LearnedPattern[] = JSON.parse(existingStr);
-      
-      // Filter for the current mode to ensure relevant learning
-      // Get the MOST RECENT 5 examples. Recent preferences matter most.
-      const relevantMemories = brain
-        .filter(m => m.mode === mode)
-        .reverse()
-        .slice(0, 5); 
-
-      if (relevantMemories.length === 0) return "";
-
-      const formattedMemory = relevantMemories.map((m, i) => 
-        `[STYLE REFERENCE ${i + 1}]
+      const modePatterns = loadBrain().patterns.filter(m => m.mode === mode);
+      const relevantMemories = rankPatterns(modePatterns.filter(m => !isDislike(m)), userInput, RECALL_LIMIT);
+      const avoidMemories = rankPatterns(modePatterns.filter(isDislike), userInput, AVOID_RECALL_LIMIT);
+
+      let context = "";
+
+      if (relevantMemories.length > 0) {
+        const formattedMemory = relevantMemories.map((m, i) =>
+          `[STYLE REFERENCE ${i + 1}]
 User Asked For: "${m.userInput}"
 You Generated Prompt: "${m.refinedPrompt}"
 --------------------------------------------------`
-      ).join('\n');
+        ).join('\n');
 
-      return `
+        context += `
 \n\n============= LEARNED USER STYLES (SUPERVISED MEMORY) =============
-The user has explicitly LIKED the following output styles. 
+The user has explicitly LIKED the following output styles.
 You MUST treat these as the "Gold Standard" for this user's taste.
+References are ordered by relevance to the new request.
 
 ${formattedMemory}
 
-INSTRUCTION: 
-1. Analyze the "You Generated Prompt" examples above. 
+INSTRUCTION:
+1. Analyze the "You Generated Prompt" examples above.
 2. Identify the recurring keywords, lighting choices, camera angles, and artistic styles (e.g., "neon", "minimalist", "hyper-realistic").
 3. APPLY those exact stylistic choices to the NEW request below, unless the user specifically asks for something contradictory.
 4. Do not copy the *subject* (unless requested), but COPY the *style*.
 ===================================================================\n`;
+      }
+
+      if (avoidMemories.length > 0) {
+        const formattedAvoid = avoidMemories.map((m, i) =>
+          `[REJECTED ${i + 1}]
+User Asked For: "${m.userInput}"
+Rejected Prompt: "${m.refinedPrompt}"
+Reasons: ${m.reasons && m.reasons.length > 0 ? m.reasons.join(', ') : 'not specified'}
+--------------------------------------------------`
+        ).join('\n');
+
+        context += `
+\n\n============= THINGS TO AVOID (NEGATIVE FEEDBACK) =============
+The user DISLIKED results produced from these prompts.
+
+${formattedAvoid}
+
+INSTRUCTION:
+1. Treat the listed reasons as explicit things to avoid in the NEW prompt (e.g. "too cluttered" -> simplify the scene, "text garbled" -> keep text minimal and short).
+2. Steer away from the stylistic choices of the rejected prompts unless the user asks for them.
+===================================================================\n`;
+      }
+
+      return context;
     } catch (e) {
       console.error("Failed to recall memory", e);
       return "";
     }
+  },
+
+  // ==========================================================================
+  //  MANAGEMENT (Memory panel)
+  // ==========================================================================
+  list: (): LearnedPattern[] => {
+    try {
+      return loadBrain().patterns;
+    } catch (e) {
+      console.error("Failed to read memory", e);
+      return [];
+    }
+  },
+
+  update: (id: string, changes: Partial<Pick<LearnedPattern, 'userInput' | 'refinedPrompt' | 'pinned'>>) => {
+    try {
+      const brain = loadBrain();
+      brain.patterns = brain.patterns.map(p => (p.id === id ? { ...p, ...changes } : p));
+      saveBrain(enforceBudget(brain));
+    } catch (e) {
+      console.error("Failed to update memory", e);
+    }
+  },
+
+  remove: (id: string) => {
+    try {
+      const brain = loadBrain();
+      brain.patterns = brain.patterns.filter(p => p.id !== id);
+      saveBrain(brain);
+    } catch (e) {
+      console.error("Failed to remove from memory", e);
+    }
+  },
+
+  /** Clear one mode, or everything when no mode is given. Pinned patterns are kept unless `includePinned`. */
+  clear: (mode?: ModeId, includePinned: boolean = false) => {
+    try {
+      const brain = loadBrain();
+      brain.patterns = brain.patterns.filter(p =>
+        (mode && p.mode !== mode) || (p.pinned && !includePinned)
+      );
+      saveBrain(brain);
+    } catch (e) {
+      console.error("Failed to clear memory", e);
+    }
+  },
+
+  /** The whole store as JSON, or null when local memory can't be read. */
+  exportBrain: (): string | null => {
+    try {
+      return JSON.stringify(loadBrain(), null, 2);
+    } catch (e) {
+      console.error("Failed to export memory", e);
+      return null;
+    }
+  },
+
+  /**
+   * Merge a shared brain file (v2 store or legacy v1 array) into local memory.
+   * Returns how many new patterns were added.
+   */
+  importBrain: (json: string): number => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch (e) {
+      throw new InvalidMemoryFileError();
+    }
+    const incoming: any[] = Array.isArray(parsed) ? parsed : parsed?.patterns;
+    if (!Array.isArray(incoming)) throw new InvalidMemoryFileError();
+
+    const brain = loadBrain();
+    let added = 0;
+    incoming.filter(isPattern).forEach(p => {
+      const isDuplicate = brain.patterns.some(b => b.userInput === p.userInput && b.refinedPrompt === p.refinedPrompt);
+      if (isDuplicate) return;
+      brain.patterns.push({
+        id: newPatternId(),
+        mode: p.mode,
+        userInput: p.userInput,
+        refinedPrompt: p.refinedPrompt,
+        timestamp: typeof p.timestamp === 'number' ? p.timestamp : Date.now(),
+        pinned: !!p.pinned,
+        sentiment: p.sentiment === 'dislike' ? 'dislike' : 'like',
+        ...(Array.isArray(p.reasons) ? { reasons: p.reasons.filter((r: unknown) => typeof r === 'string') } : {})
+      });
+      added++;
+    });
+
+    saveBrain(enforceBudget(brain));
+    return added;
   }
-};
\ No newline at end of file
+};
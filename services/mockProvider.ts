@@ -0,0 +1,170 @@
+import { ImageProvider, ModeId, RefineContext, RequestOptions, StyleAnalysis } from "../types";
+import { modeRegistry } from "./modeRegistry";
+import { createCanvas, loadImage } from "./imageUtils";
+import { sleep } from "./abortUtils";
+
+// ============================================================================
+//  OFFLINE MOCK PROVIDER
+// ============================================================================
+// Draws deterministic placeholder images locally so the UI can be developed
+// and exercised without an API key or quota. The same prompt, aspect ratio
+// and variation index always produce the same picture.
+
+const MOCK_LATENCY_MS = 600;
+// Reported as the model in provenance
+const MOCK_MODEL = 'mock-canvas';
+
+export const ASPECT_RATIO_SIZES: Record<string, { width: number; height: number }> = {
+  '1:1': { width: 1024, height: 1024 },
+  '16:9': { width: 1280, height: 720 },
+  '9:16': { width: 720, height: 1280 },
+  '3:4': { width: 768, height: 1024 },
+  '4:3': { width: 1024, height: 768 }
+};
+
+// FNV-1a, good enough to spread prompts across hues
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+      if (lines.length === maxLines) break;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  if (lines.length === maxLines && words.join(' ') !== lines.join(' ')) {
+    lines[maxLines - 1] = lines[maxLines - 1].replace(/\s*\S*$/, '') + '…';
+  }
+  return lines;
+};
+
+const drawPlaceholder = async (prompt: string, aspectRatio: string, variant: number, baseImage?: string): Promise<string> => {
+  const { width, height } = ASPECT_RATIO_SIZES[aspectRatio] || ASPECT_RATIO_SIZES['1:1'];
+  const seed = hashString(`${prompt}|${aspectRatio}|${variant}`);
+  const hue = seed % 360;
+
+  const { canvas, ctx } = createCanvas(width, height);
+
+  // Background: either the reference image or a seeded gradient
+  if (baseImage) {
+    const img = await loadImage(baseImage);
+    const scale = Math.max(width / img.width, height / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+    ctx.fillStyle = `hsla(${hue}, 70%, 30%, 0.45)`;
+    ctx.fillRect(0, 0, width, height);
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 25%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    // Seeded shapes so different prompts are visually distinct
+    let state = seed;
+    const next = () => {
+      state = Math.imul(state ^ (state >>> 15), 0x2c1b3c6d) >>> 0;
+      return state / 0xffffffff;
+    };
+    for (let i = 0; i < 6; i++) {
+      ctx.fillStyle = `hsla(${(hue + next() * 120) % 360}, 80%, 65%, 0.25)`;
+      ctx.beginPath();
+      ctx.arc(next() * width, next() * height, (0.1 + next() * 0.25) * Math.min(width, height), 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  // Prompt + aspect ratio label
+  const fontSize = Math.round(Math.min(width, height) / 18);
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.55)';
+  ctx.fillRect(0, height * 0.62, width, height * 0.38);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+  const lines = wrapText(ctx, prompt, width * 0.9, 4);
+  lines.forEach((line, i) => ctx.fillText(line, width * 0.05, height * 0.65 + i * fontSize * 1.25));
+
+  ctx.font = `700 ${Math.round(fontSize * 0.8)}px Inter, sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.fillText(`MOCK · ${aspectRatio} · ${width}×${height} · #${variant + 1}`, width * 0.05, height * 0.05);
+
+  return canvas.toDataURL('image/png');
+};
+
+// Canned creative directions so alternative refinements differ visibly
+const MOCK_DIRECTIONS = ['bold and high contrast', 'soft pastel palette', 'dark cinematic lighting', 'flat minimal shapes'];
+
+// Canned style readings; the image hash picks one so the same reference always reads the same
+const MOCK_STYLES: StyleAnalysis[] = [
+  {
+    name: 'Mock Neon Noir',
+    medium: 'digital photograph with heavy post-processing',
+    palette: 'deep blacks with magenta and cyan neon accents',
+    lighting: 'hard rim light from colored signs, wet reflective surfaces',
+    composition: 'low angle, subject off-center, strong leading lines',
+    negative: 'daylight, pastel colors, flat lighting'
+  },
+  {
+    name: 'Mock Pastel Flat',
+    medium: 'flat vector illustration',
+    palette: 'soft pastels on an off-white ground, one coral accent',
+    lighting: 'no modeled light, flat fills',
+    composition: 'centered subject, generous negative space',
+    typography: 'rounded geometric sans-serif',
+    negative: 'gradients, photographic texture, dark tones'
+  }
+];
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+
+  refinePrompt: async (userInput: string, mode: ModeId, context: RefineContext = {}, options: RequestOptions = {}) => {
+    await sleep(MOCK_LATENCY_MS / 3, options.signal);
+    const subject = userInput.trim() || (context.hasImages ? 'Edited reference image' : 'Untitled concept');
+    const tag = context.isEdit ? ' (follow-up edit)' : context.hasImages ? ' (image-to-image)' : '';
+    const brand = context.brandKit ? `, ${context.brandKit.name} brand colors ${context.brandKit.palette.join(' ')}` : '';
+    const style = context.style ? `, ${context.style.name.toLowerCase()} style` : '';
+    return `${subject} — ${modeRegistry.get(mode).name}${tag}${style}${brand}`;
+  },
+
+  refinePromptAlternatives: async (userInput: string, mode: ModeId, count: number, context?: RefineContext, options?: RequestOptions) => {
+    const base = await mockProvider.refinePrompt(userInput, mode, context, options);
+    return MOCK_DIRECTIONS.slice(0, count).map(direction => `${base}, ${direction}`);
+  },
+
+  generateImage: async (prompt: string, aspectRatio: string = '1:1', _highQuality?: boolean, variant: number = 0, options: RequestOptions = {}) => {
+    await sleep(MOCK_LATENCY_MS, options.signal);
+    options.onModel?.(MOCK_MODEL);
+    return drawPlaceholder(prompt, aspectRatio, variant);
+  },
+
+  generateWithImages: async (base64Images: string[], prompt: string, aspectRatio: string = '1:1', _highQuality?: boolean, variant: number = 0, options: RequestOptions = {}) => {
+    await sleep(MOCK_LATENCY_MS, options.signal);
+    options.onModel?.(MOCK_MODEL);
+    return drawPlaceholder(prompt, aspectRatio, variant, base64Images[0]);
+  },
+
+  analyzeStyle: async (base64Image: string, options: RequestOptions = {}) => {
+    await sleep(MOCK_LATENCY_MS / 2, options.signal);
+    return MOCK_STYLES[hashString(base64Image) % MOCK_STYLES.length];
+  }
+};
@@ -0,0 +1,175 @@
+import { AppMode, AspectRatio, ModeDefinition, ModeId, ModeTool } from "../types";
+import { createId } from "./projectService";
+
+const CUSTOM_MODES_KEY = 'pixfrog_custom_modes';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '3:4', '4:3'];
+
+// ============================================================================
+//  MODE REGISTRY
+// ============================================================================
+// Everything that differs between modes (sidebar entry, smart defaults,
+// refinement strategy, fallback prompt, chat copy, tools and recommended
+// styles) lives here, so a new mode is one entry rather than a change in
+// every component. Custom modes are stored in localStorage.
+
+export const BUILT_IN_MODES: ModeDefinition[] = [
+  {
+    id: AppMode.GENERAL,
+    name: 'General',
+    label: 'General',
+    icon: 'sparkles',
+    aspectRatio: '1:1',
+    highQuality: false,
+    strategy: 'High quality digital art.',
+    fallbackPrompt: 'High quality image.',
+    placeholder: 'Type a prompt to generate...',
+    tips: [],
+    tools: [],
+    recommendedStyles: ['photoreal', '3d-render', 'anime', 'watercolor']
+  },
+  {
+    id: AppMode.THUMBNAIL,
+    name: 'YouTube Thumbnail',
+    label: 'Thumbnail',
+    icon: 'youtube',
+    aspectRatio: '16:9',
+    highQuality: true,
+    strategy: 'High CTR, vibrant, expressive.',
+    fallbackPrompt: 'YouTube thumbnail.',
+    placeholder: "Describe your thumbnail... (e.g., 'Surprised face on left, gaming screenshot bg')",
+    tips: ['Pro Tip: Upload a screenshot for thumbnail remixes!'],
+    tools: ['text-layers'],
+    recommendedStyles: ['photoreal', '3d-render', 'comic']
+  },
+  {
+    id: AppMode.LOGO,
+    name: 'Logo Design',
+    label: 'Logo',
+    icon: 'hexagon',
+    aspectRatio: '1:1',
+    highQuality: true,
+    strategy: 'Vector art, minimalist, white background.',
+    fallbackPrompt: 'High quality image.',
+    placeholder: 'Type a prompt to generate...',
+    tips: [],
+    tools: ['vectorize', 'icon-pack'],
+    recommendedStyles: ['flat-vector', 'line-art']
+  },
+  {
+    id: AppMode.BG_REMOVER,
+    name: 'Background Remover',
+    label: 'BG Remover',
+    icon: 'scissors',
+    aspectRatio: '1:1',
+    highQuality: false,
+    strategy: 'Subject isolated on a flat, pure white (#FFFFFF) background with no shadows, gradients or floor reflections (the app cuts it out afterwards).',
+    fallbackPrompt: 'Isolate the subject on white background.',
+    placeholder: 'Type a prompt to generate...',
+    tips: [],
+    tools: ['cutout'],
+    recommendedStyles: ['photoreal', '3d-render']
+  },
+  {
+    id: AppMode.BANNER,
+    name: 'Social Banner',
+    label: 'Social Banner',
+    icon: 'share',
+    aspectRatio: '16:9',
+    highQuality: true,
+    strategy: 'Wide angle, aesthetic.',
+    fallbackPrompt: 'High quality image.',
+    placeholder: 'Type a prompt to generate...',
+    tips: [],
+    tools: ['text-layers'],
+    recommendedStyles: ['flat-vector', '3d-render', 'retro-print']
+  },
+  {
+    id: AppMode.POSTER,
+    name: 'Poster',
+    label: 'Poster',
+    icon: 'image',
+    aspectRatio: '3:4',
+    highQuality: true,
+    strategy: 'Vertical, cinematic.',
+    fallbackPrompt: 'High quality image.',
+    placeholder: 'Type a prompt to generate...',
+    tips: [],
+    tools: ['text-layers'],
+    recommendedStyles: ['cinematic', 'retro-print', 'watercolor']
+  },
+  {
+    id: AppMode.AVATAR,
+    name: 'Avatar',
+    label: 'Avatar',
+    icon: 'user',
+    aspectRatio: '1:1',
+    highQuality: true,
+    strategy: 'Headshot, centered.',
+    fallbackPrompt: 'High quality image.',
+    placeholder: 'Type a prompt to generate...',
+    tips: [],
+    tools: ['icon-pack'],
+    recommendedStyles: ['anime', '3d-render', 'pixel-art', 'photoreal']
+  }
+];
+
+const DEFAULT_MODE = BUILT_IN_MODES[0];
+
+const isModeDefinition = (value: any): boolean =>
+  value && typeof value.id === 'string' && typeof value.name === 'string';
+
+const loadCustomModes = (): ModeDefinition[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_MODES_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    // Fill gaps from the General defaults so older or hand-edited entries still work
+    return stored.filter(isModeDefinition).map((m: ModeDefinition) => ({ ...DEFAULT_MODE, ...m, custom: true }));
+  } catch (e) {
+    console.error("Failed to load custom modes", e);
+    return [];
+  }
+};
+
+const saveCustomModes = (modes: ModeDefinition[]) => {
+  localStorage.setItem(CUSTOM_MODES_KEY, JSON.stringify(modes));
+};
+
+export const modeRegistry = {
+  list: (): ModeDefinition[] => [...BUILT_IN_MODES, ...loadCustomModes()],
+
+  /**
+   * Definition for a mode id; unknown ids (e.g. a deleted custom mode) get General.
+   */
+  get: (id: ModeId): ModeDefinition =>
+    BUILT_IN_MODES.find(m => m.id === id) || loadCustomModes().find(m => m.id === id) || DEFAULT_MODE,
+
+  /**
+   * A new, unsaved custom mode starting from `base` (General by default).
+   */
+  createCustom: (name: string, base: ModeDefinition = DEFAULT_MODE): ModeDefinition => ({
+    ...base,
+    id: `custom-${createId()}`,
+    name: name.trim() || 'Custom Mode',
+    label: name.trim() || 'Custom Mode',
+    tips: [...base.tips],
+    tools: [...base.tools],
+    recommendedStyles: [...base.recommendedStyles],
+    custom: true
+  }),
+
+  saveCustom: (mode: ModeDefinition) => {
+    const modes = loadCustomModes();
+    const saved = { ...mode, custom: true };
+    const index = modes.findIndex(m => m.id === mode.id);
+    if (index >= 0) modes[index] = saved;
+    else modes.push(saved);
+    saveCustomModes(modes);
+  },
+
+  removeCustom: (id: ModeId) => {
+    saveCustomModes(loadCustomModes().filter(m => m.id !== id));
+  }
+};
+
+export const modeHasTool = (id: ModeId, tool: ModeTool): boolean => modeRegistry.get(id).tools.includes(tool);
@@ -0,0 +1,54 @@
+import { Project } from "../types";
+import { STORE_PROJECTS, runRequest } from "./studioDb";
+
+const ACTIVE_PROJECT_KEY = 'pixfrog_active_project';
+
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Project Persistence
+ * Stores named projects (per-mode chat histories plus archived chats) locally.
+ */
+export const projectService = {
+  create: (name: string): Project => {
+    const now = Date.now();
+    return {
+      id: createId(),
+      name: name.trim() || 'Untitled Project',
+      histories: {},
+      archives: [],
+      createdAt: now,
+      updatedAt: now
+    };
+  },
+
+  list: async (): Promise<Project[]> => {
+    try {
+      const projects = await runRequest<Project[]>(STORE_PROJECTS, 'readonly', store => store.getAll());
+      return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (e) {
+      console.error("Failed to load projects", e);
+      return [];
+    }
+  },
+
+  save: async (project: Project): Promise<void> => {
+    try {
+      await runRequest(STORE_PROJECTS, 'readwrite', store => store.put(project));
+    } catch (e) {
+      console.error("Failed to save project", e);
+    }
+  },
+
+  remove: async (id: string): Promise<void> => {
+    try {
+      await runRequest(STORE_PROJECTS, 'readwrite', store => store.delete(id));
+    } catch (e) {
+      console.error("Failed to delete project", e);
+    }
+  },
+
+  getActiveId: (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY),
+
+  setActiveId: (id: string) => localStorage.setItem(ACTIVE_PROJECT_KEY, id)
+};
@@ -0,0 +1,45 @@
+import { ChatMessage, GenerationProvenance, RequestOptions } from "../types";
+
+// ============================================================================
+//  PROVENANCE
+// ============================================================================
+// Providers report the model that answered through `onModel` and the rate
+// limiter reports retries through `onStatus`. Wrapping a turn's request
+// options collects both without changing what the caller sees.
+
+export interface ModelUsage {
+  model?: string;
+  fallbackFrom?: string;
+  retries: number;
+}
+
+export const trackModelUsage = (options: RequestOptions) => {
+  const usage: ModelUsage = { retries: 0 };
+  const tracked: RequestOptions = {
+    ...options,
+    onStatus: (status) => {
+      if (status.state === 'retrying') usage.retries++;
+      options.onStatus?.(status);
+    },
+    onModel: (model, fallbackFrom) => {
+      usage.model = model;
+      // With several variations, one fallback is enough to report it
+      usage.fallbackFrom = usage.fallbackFrom || fallbackFrom;
+      options.onModel?.(model, fallbackFrom);
+    }
+  };
+  return { options: tracked, usage };
+};
+
+export const formatLatency = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+/** Only full generations can be replayed; region edits depend on a mask that isn't kept. */
+export const canRemix = (provenance?: GenerationProvenance): provenance is GenerationProvenance =>
+  provenance?.operation === 'generate';
+
+/** The user turn a result's reference images came from, if it had any and it is still in the chat. */
+export const findInputRequest = (messages: ChatMessage[], source: { inputsFrom?: number }): ChatMessage | undefined =>
+  source.inputsFrom === undefined
+    ? undefined
+    : messages.find(m => m.role === 'user' && m.timestamp === source.inputsFrom);
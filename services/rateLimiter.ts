@@ -0,0 +1,204 @@
+import { RequestOptions } from "../types";
+import { createAbortError, isAbortError, sleep } from "./abortUtils";
+
+// ============================================================================
+//  RATE-LIMIT SCHEDULER
+// ============================================================================
+// Every model call goes through one shared queue per model. A request starts
+// only when the model's requests-per-minute budget has room and no cooldown
+// from a recent 429 is in effect; failures that are worth retrying back off
+// with jitter (or for as long as the server asks) and rejoin the front of the
+// queue.
+
+const WINDOW_MS = 60_000;
+const DEFAULT_RPM = 10;
+const DEFAULT_RETRIES = 3;
+const BACKOFF_BASE_MS = 2_000;
+const BACKOFF_MAX_MS = 60_000;
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+// Free-tier friendly defaults; raise them with RATE_LIMITS (see README) on paid keys
+export const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  'gemini-2.5-flash': 10,
+  'gemini-2.5-flash-image': 10,
+  'gemini-3-pro-image-preview': 5
+};
+
+export interface ScheduleOptions extends RequestOptions {
+  retries?: number; // Extra attempts after the first; 0 disables retrying
+}
+
+interface Task<T> {
+  operation: () => Promise<T>;
+  options: ScheduleOptions;
+  attempt: number;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+const limits: Record<string, number> = { ...DEFAULT_RATE_LIMITS };
+const queues = new Map<string, Task<any>[]>();
+const recentStarts = new Map<string, number[]>();
+const cooldownUntil = new Map<string, number>();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * HTTP status of an API error, whether the SDK exposes it as a field or only
+ * inside the JSON error body in the message.
+ */
+export const errorStatus = (error: any): number | null => {
+  if (typeof error?.status === 'number') return error.status;
+  if (typeof error?.code === 'number') return error.code;
+  const match = String(error?.message ?? '').match(/"code"\s*:\s*(\d{3})/);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * How long the server asked us to wait (RetryInfo detail or "retry in Ns" text), if it said.
+ */
+export const retryHintMs = (error: any): number | null => {
+  const text = String(error?.message ?? '');
+  const match = text.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) || text.match(/retry in ([\d.]+)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+// Full jitter: anywhere between half and all of the exponential step
+const backoffMs = (attempt: number) => {
+  const step = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(step / 2 + Math.random() * (step / 2));
+};
+
+const limitFor = (model: string) => limits[model] ?? DEFAULT_RPM;
+
+const waitTimeFor = (model: string, now: number): number => {
+  const starts = (recentStarts.get(model) || []).filter(t => now - t < WINDOW_MS);
+  recentStarts.set(model, starts);
+
+  const windowWait = starts.length >= limitFor(model) ? starts[0] + WINDOW_MS - now : 0;
+  const cooldownWait = Math.max(0, (cooldownUntil.get(model) || 0) - now);
+  return Math.max(windowWait, cooldownWait);
+};
+
+const reportQueue = (model: string, waitMs: number) => {
+  const now = Date.now();
+  const perWindow = limitFor(model);
+  (queues.get(model) || []).forEach((task, i) => {
+    // Anyone past the current window's free slots waits for a later window
+    const estimate = waitMs + Math.floor(i / perWindow) * WINDOW_MS;
+    task.options.onStatus?.({ state: 'queued', position: i + 1, until: now + estimate });
+  });
+};
+
+const pump = (model: string) => {
+  clearTimeout(timers.get(model));
+  timers.delete(model);
+  const queue = queues.get(model) || [];
+
+  while (queue.length > 0) {
+    const now = Date.now();
+    const wait = waitTimeFor(model, now);
+    if (wait > 0) {
+      timers.set(model, setTimeout(() => pump(model), wait));
+      reportQueue(model, wait);
+      return;
+    }
+    const task = queue.shift()!;
+    recentStarts.get(model)!.push(now);
+    execute(model, task);
+  }
+};
+
+const execute = async <T>(model: string, task: Task<T>) => {
+  const { signal, onStatus } = task.options;
+  const retries = task.options.retries ?? DEFAULT_RETRIES;
+  onStatus?.({ state: 'running' });
+
+  try {
+    task.resolve(await task.operation());
+  } catch (error) {
+    const status = errorStatus(error);
+    const retryable = status !== null && RETRYABLE_STATUSES.includes(status);
+    if (isAbortError(error) || signal?.aborted || !retryable || task.attempt >= retries) {
+      task.reject(error);
+      return;
+    }
+
+    const hint = retryHintMs(error);
+    const delay = Math.max(hint ?? 0, backoffMs(task.attempt));
+    if (status === 429) {
+      // Quota is per model, so everyone queued for it cools down together
+      cooldownUntil.set(model, Math.max(cooldownUntil.get(model) || 0, Date.now() + (hint ?? delay)));
+    }
+    console.warn(`[PixFrog AI] ${model} returned ${status}. Retrying in ${Math.round(delay / 1000)}s...`);
+    onStatus?.({ state: 'retrying', attempt: task.attempt + 1, maxAttempts: retries, until: Date.now() + delay });
+
+    try {
+      await sleep(delay, signal);
+    } catch (abort) {
+      task.reject(abort);
+      return;
+    }
+    task.attempt += 1;
+    const queue = queues.get(model) || [];
+    queue.unshift(task);
+    queues.set(model, queue);
+    pump(model);
+  }
+};
+
+export const rateLimiter = {
+  /**
+   * Run `operation` against `model` once the model's budget allows it.
+   */
+  schedule: <T>(model: string, operation: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    return new Promise<T>((resolve, reject) => {
+      const task: Task<T> = { operation, options, attempt: 0, resolve, reject };
+      const queue = queues.get(model) || [];
+      queue.push(task);
+      queues.set(model, queue);
+
+      // Leave the line straight away if the job is cancelled while waiting
+      signal?.addEventListener('abort', () => {
+        const current = queues.get(model) || [];
+        const index = current.indexOf(task);
+        if (index === -1) return;
+        current.splice(index, 1);
+        reject(createAbortError());
+        reportQueue(model, waitTimeFor(model, Date.now()));
+      }, { once: true });
+
+      pump(model);
+    });
+  },
+
+  /**
+   * Override requests-per-minute budgets, e.g. `{ 'gemini-2.5-flash-image': 60 }`.
+   */
+  configure: (overrides: Record<string, number>) => {
+    Object.entries(overrides).forEach(([model, rpm]) => {
+      if (rpm > 0) limits[model] = rpm;
+    });
+  }
+};
+
+/**
+ * Budgets from the RATE_LIMITS env var, a JSON object of model → requests per
+ * minute, e.g. `{"gemini-2.5-flash-image": 60}`.
+ */
+export const applyConfiguredRateLimits = (raw: string = process.env.RATE_LIMITS || '') => {
+  if (!raw.trim()) return;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error("Expected an object");
+    const overrides: Record<string, number> = {};
+    Object.entries(parsed).forEach(([model, rpm]) => {
+      if (typeof rpm === 'number') overrides[model] = rpm;
+    });
+    rateLimiter.configure(overrides);
+  } catch (e) {
+    console.warn(`Ignoring invalid RATE_LIMITS "${raw}". Using the defaults.`, e);
+  }
+};
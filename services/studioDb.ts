@@ -0,0 +1,73 @@
+const DB_NAME = 'pixfrog_studio';
+const DB_VERSION = 3;
+
+export const STORE_PROJECTS = 'projects';
+export const STORE_BRAND_KITS = 'brandKits';
+export const STORE_STYLES = 'stylePresets';
+
+// ============================================================================
+//  INDEXEDDB CONNECTION
+// ============================================================================
+// Base64 images quickly exceed the ~5MB localStorage quota, so anything that
+// carries images (projects, brand kits, style thumbnails) lives in IndexedDB.
+// Small settings such as the active ids stay in localStorage.
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      [STORE_PROJECTS, STORE_BRAND_KITS, STORE_STYLES].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        // Too late: the caller already gave up, and a later call opens afresh
+        db.close();
+        return;
+      }
+      // Another tab is upgrading; let go so it isn't stuck behind this one
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    // An older tab still holds the previous version open and won't release it
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new Error("The studio database is open in another tab. Close other PixFrog tabs and reload."));
+    };
+  });
+
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
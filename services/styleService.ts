@@ -0,0 +1,143 @@
+import { StyleAnalysis, StylePreset } from "../types";
+import { STORE_STYLES, runRequest } from "./studioDb";
+import { createId } from "./projectService";
+
+// ============================================================================
+//  STYLE PRESETS
+// ============================================================================
+// A style is a named look handed to prompt refinement as its own input, so
+// "anime" or "retro print" doesn't have to be typed into every request.
+// Built-ins ship with the app; custom styles live in IndexedDB with their
+// thumbnails.
+
+// Longer side of a custom style's thumbnail
+export const STYLE_THUMBNAIL_MAX_SIDE = 160;
+
+export const BUILT_IN_STYLES: StylePreset[] = [
+  {
+    id: 'photoreal',
+    name: 'Photoreal',
+    fragment: 'photorealistic photograph, natural lighting, true-to-life textures, shallow depth of field, shot on a full-frame camera',
+    negative: 'illustration, cartoon, painterly, plastic skin, oversaturated',
+    swatch: 'linear-gradient(135deg, #1e293b 0%, #64748b 55%, #fcd34d 100%)'
+  },
+  {
+    id: 'cinematic',
+    name: 'Cinematic',
+    fragment: 'cinematic film still, anamorphic widescreen framing, dramatic rim lighting, teal and orange grade, subtle film grain',
+    negative: 'flat lighting, snapshot, cluttered background',
+    swatch: 'linear-gradient(135deg, #0f766e 0%, #134e4a 45%, #f97316 100%)'
+  },
+  {
+    id: '3d-render',
+    name: '3D Render',
+    fragment: 'polished 3D render, soft global illumination, smooth rounded forms, subtle subsurface scattering, studio backdrop',
+    negative: 'flat 2D, sketchy lines, photo noise',
+    swatch: 'radial-gradient(circle at 35% 30%, #f0abfc 0%, #818cf8 45%, #312e81 100%)'
+  },
+  {
+    id: 'flat-vector',
+    name: 'Flat Vector',
+    fragment: 'flat vector illustration, clean geometric shapes, limited color palette, crisp edges, no gradients',
+    negative: 'photographic detail, textures, noise, 3D shading',
+    swatch: 'linear-gradient(90deg, #22d3ee 0 33%, #facc15 33% 66%, #f43f5e 66% 100%)'
+  },
+  {
+    id: 'line-art',
+    name: 'Line Art',
+    fragment: 'minimal monoline line art, single stroke weight, generous negative space, black on white',
+    negative: 'shading, color fills, texture, photographic detail',
+    swatch: 'repeating-linear-gradient(45deg, #f8fafc 0 6px, #0f172a 6px 8px)'
+  },
+  {
+    id: 'anime',
+    name: 'Anime',
+    fragment: 'anime illustration, expressive cel shading, clean line art, vibrant colors, detailed eyes and hair',
+    negative: 'photorealistic, 3D render, western cartoon proportions',
+    swatch: 'linear-gradient(135deg, #fbcfe8 0%, #a5b4fc 50%, #67e8f9 100%)'
+  },
+  {
+    id: 'comic',
+    name: 'Comic Book',
+    fragment: 'bold comic book art, heavy ink outlines, halftone shading, punchy saturated colors, dynamic action pose',
+    negative: 'soft gradients, photorealism, muted colors',
+    swatch: 'radial-gradient(circle, #facc15 20%, transparent 21%) 0 0 / 10px 10px, linear-gradient(135deg, #ef4444, #1d4ed8)'
+  },
+  {
+    id: 'retro-print',
+    name: 'Retro Print',
+    fragment: 'vintage screen print poster, limited ink palette, risograph grain, slight misregistration, mid-century typography feel',
+    negative: 'glossy 3D, digital gradients, photorealism',
+    swatch: 'linear-gradient(180deg, #fef3c7 0 40%, #ea580c 40% 70%, #0e7490 70% 100%)'
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor',
+    fragment: 'loose watercolor painting, soft bleeding washes, visible paper texture, delicate pigment granulation',
+    negative: 'hard vector edges, 3D render, neon colors',
+    swatch: 'radial-gradient(circle at 30% 40%, #bae6fd 0%, transparent 55%), radial-gradient(circle at 70% 60%, #fbcfe8 0%, transparent 55%), #fefce8'
+  },
+  {
+    id: 'pixel-art',
+    name: 'Pixel Art',
+    fragment: '16-bit pixel art, crisp square pixels, limited retro game palette, no anti-aliasing',
+    negative: 'smooth gradients, blur, high-resolution detail',
+    swatch: 'conic-gradient(#4ade80 0 25%, #1e3a8a 0 50%, #4ade80 0 75%, #1e3a8a 0) 0 0 / 12px 12px'
+  }
+];
+
+export const stylePresetService = {
+  create: (name: string): StylePreset => ({
+    id: `style-${createId()}`,
+    name: name.trim() || 'My Style',
+    fragment: '',
+    custom: true,
+    createdAt: Date.now()
+  }),
+
+  /**
+   * An unsaved custom style from a reference image's analysis and measured palette.
+   */
+  fromAnalysis: (analysis: StyleAnalysis, palette: string[], thumbnail?: string): StylePreset => {
+    const parts = [
+      analysis.medium,
+      analysis.palette && `${analysis.palette} palette`,
+      analysis.lighting,
+      analysis.composition,
+      analysis.typography && `lettering: ${analysis.typography}`
+    ].filter(Boolean);
+    return {
+      ...stylePresetService.create(analysis.name),
+      fragment: parts.join('; '),
+      negative: analysis.negative,
+      palette,
+      thumbnail
+    };
+  },
+
+  list: async (): Promise<StylePreset[]> => {
+    try {
+      const styles = await runRequest<StylePreset[]>(STORE_STYLES, 'readonly', store => store.getAll());
+      return styles.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+    } catch (e) {
+      console.error("Failed to load styles", e);
+      return [];
+    }
+  },
+
+  save: async (style: StylePreset): Promise<void> => {
+    try {
+      await runRequest(STORE_STYLES, 'readwrite', store => store.put({ ...style, custom: true }));
+    } catch (e) {
+      console.error("Failed to save style", e);
+    }
+  },
+
+  remove: async (id: string): Promise<void> => {
+    try {
+      await runRequest(STORE_STYLES, 'readwrite', store => store.delete(id));
+    } catch (e) {
+      console.error("Failed to delete style", e);
+    }
+  }
+};
@@ -0,0 +1,194 @@
+import { TextLayer } from "../types";
+import { imageToCanvas } from "./imageUtils";
+import { createId } from "./projectService";
+
+// ============================================================================
+//  TEXT OVERLAY RENDERING
+// ============================================================================
+// Headline text is drawn client-side on top of the generated artwork, so it
+// is always spelled correctly and sits exactly where the designer put it.
+
+export const OVERLAY_FONTS = [
+  'Inter',
+  'Anton',
+  'Bebas Neue',
+  'Montserrat',
+  'Oswald',
+  'Permanent Marker',
+  'Playfair Display',
+  'Impact'
+];
+
+// Stylesheets requested for fonts outside OVERLAY_FONTS (e.g. from a brand kit)
+const webFontRequests = new Map<string, Promise<void>>();
+
+/**
+ * Fetch a Google Fonts family that index.html doesn't already include.
+ * Resolves once the stylesheet is in (or failed); unknown families just fall back.
+ */
+export const loadWebFont = (family: string): Promise<void> => {
+  if (OVERLAY_FONTS.includes(family)) return Promise.resolve();
+  const existing = webFontRequests.get(family);
+  if (existing) return existing;
+
+  const request = new Promise<void>(resolve => {
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family).replace(/%20/g, '+')}&display=swap`;
+    link.onload = () => resolve();
+    link.onerror = () => resolve();
+    document.head.appendChild(link);
+  });
+  webFontRequests.set(family, request);
+  return request;
+};
+
+const LINE_HEIGHT = 1.1;
+const SNAP_THRESHOLD = 0.015;
+const SAFE_MARGIN = 0.05;
+
+export const createTextLayer = (overrides: Partial<TextLayer> = {}): TextLayer => ({
+  id: createId(),
+  text: 'YOUR TEXT',
+  x: 0.5,
+  y: 0.5,
+  fontFamily: 'Anton',
+  fontWeight: 700,
+  fontSize: 14,
+  fill: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 8,
+  shadow: true,
+  shadowColor: 'rgba(0, 0, 0, 0.6)',
+  rotation: 0,
+  ...overrides
+});
+
+const fontSpec = (layer: TextLayer, px: number) => `${layer.fontWeight} ${px}px "${layer.fontFamily}", sans-serif`;
+
+/** Make sure web fonts are ready before drawing, otherwise canvas silently falls back. */
+export const loadLayerFonts = async (layers: TextLayer[]) => {
+  if (!document.fonts) return;
+  await Promise.all(layers.map(async layer => {
+    await loadWebFont(layer.fontFamily);
+    await document.fonts.load(fontSpec(layer, 48), layer.text).catch(() => undefined);
+  }));
+};
+
+/**
+ * Size of a layer's text block in image pixels (before rotation).
+ */
+export const measureTextLayer = (ctx: CanvasRenderingContext2D, layer: TextLayer, height: number) => {
+  const px = (layer.fontSize / 100) * height;
+  ctx.save();
+  ctx.font = fontSpec(layer, px);
+  const lines = layer.text.split('\n');
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width), 1);
+  ctx.restore();
+  return { width, height: lines.length * px * LINE_HEIGHT };
+};
+
+export const drawTextLayer = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number) => {
+  const px = (layer.fontSize / 100) * height;
+  const lines = layer.text.split('\n');
+  const blockHeight = lines.length * px * LINE_HEIGHT;
+  const strokePx = (layer.strokeWidth / 100) * px;
+
+  ctx.save();
+  ctx.translate(layer.x * width, layer.y * height);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.font = fontSpec(layer, px);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  let fillStyle: string | CanvasGradient = layer.fill;
+  if (layer.gradient) {
+    const gradient = ctx.createLinearGradient(0, -blockHeight / 2, 0, blockHeight / 2);
+    gradient.addColorStop(0, layer.fill);
+    gradient.addColorStop(1, layer.gradient);
+    fillStyle = gradient;
+  }
+
+  lines.forEach((line, i) => {
+    const offsetY = (i - (lines.length - 1) / 2) * px * LINE_HEIGHT;
+
+    // Shadow only on the first pass so stroke + fill don't double it
+    if (layer.shadow) {
+      ctx.shadowColor = layer.shadowColor;
+      ctx.shadowBlur = px * 0.15;
+      ctx.shadowOffsetX = px * 0.04;
+      ctx.shadowOffsetY = px * 0.06;
+    }
+    if (strokePx > 0) {
+      ctx.strokeStyle = layer.strokeColor;
+      ctx.lineWidth = strokePx * 2; // Strokes are centered on the glyph outline
+      ctx.strokeText(line, 0, offsetY);
+      ctx.shadowColor = 'transparent';
+    }
+    ctx.fillStyle = fillStyle;
+    ctx.fillText(line, 0, offsetY);
+    ctx.shadowColor = 'transparent';
+  });
+
+  ctx.restore();
+};
+
+/**
+ * Test whether an image-space point falls inside a (rotated) layer.
+ */
+export const hitTestLayer = (ctx: CanvasRenderingContext2D, layer: TextLayer, px: number, py: number, width: number, height: number) => {
+  const size = measureTextLayer(ctx, layer, height);
+  const angle = (-layer.rotation * Math.PI) / 180;
+  const dx = px - layer.x * width;
+  const dy = py - layer.y * height;
+  const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+  const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+  return Math.abs(localX) <= size.width / 2 && Math.abs(localY) <= size.height / 2;
+};
+
+export interface SnapResult {
+  x: number;
+  y: number;
+  guidesX: number[];
+  guidesY: number[];
+}
+
+/**
+ * Snap a layer center to the canvas center, rule-of-thirds lines, and keep
+ * its edges on the safe margins. All values are fractions of the image size.
+ */
+export const snapPosition = (x: number, y: number, halfWidth: number, halfHeight: number): SnapResult => {
+  const result: SnapResult = { x, y, guidesX: [], guidesY: [] };
+
+  const snapAxis = (value: number, half: number, axis: 'x' | 'y') => {
+    const candidates: Array<{ center: number; guide: number }> = [
+      { center: 0.5, guide: 0.5 },
+      { center: 1 / 3, guide: 1 / 3 },
+      { center: 2 / 3, guide: 2 / 3 },
+      { center: SAFE_MARGIN + half, guide: SAFE_MARGIN },
+      { center: 1 - SAFE_MARGIN - half, guide: 1 - SAFE_MARGIN }
+    ];
+    for (const candidate of candidates) {
+      if (Math.abs(value - candidate.center) < SNAP_THRESHOLD) {
+        result[axis] = candidate.center;
+        (axis === 'x' ? result.guidesX : result.guidesY).push(candidate.guide);
+        return;
+      }
+    }
+  };
+
+  snapAxis(x, halfWidth, 'x');
+  snapAxis(y, halfHeight, 'y');
+  return result;
+};
+
+/**
+ * Render all layers onto the base image and return a PNG data URL.
+ */
+export const flattenTextLayers = async (baseImage: string, layers: TextLayer[]): Promise<string> => {
+  await loadLayerFonts(layers);
+  const { canvas, ctx } = await imageToCanvas(baseImage);
+  layers.forEach(layer => drawTextLayer(ctx, layer, canvas.width, canvas.height));
+  return canvas.toDataURL('image/png');
+};
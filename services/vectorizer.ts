@@ -0,0 +1,236 @@
+import { createCanvas, loadImage } from "./imageUtils";
+import { Rgb, colorDistance, quantize, toHex } from "./colorPalette";
+
+// ============================================================================
+//  RASTER-TO-VECTOR TRACING
+// ============================================================================
+// Pipeline: downsample -> k-means color quantization -> drop the background
+// color -> trace each color layer's pixel boundaries -> simplify with
+// Douglas-Peucker -> smooth into quadratic curves -> SVG.
+
+export interface VectorizeOptions {
+  detail: number;  // 1-10, trades fidelity for path count
+  colors: number;  // Palette size (2-16)
+  removeBackground: boolean;
+}
+
+export interface VectorizeResult {
+  svg: string;
+  palette: string[];
+  pathCount: number;
+}
+
+export const DEFAULT_VECTORIZE_OPTIONS: VectorizeOptions = {
+  detail: 6,
+  colors: 6,
+  removeBackground: true
+};
+
+type Point = [number, number];
+
+// ----------------------------------------------------------------------------
+//  Contour tracing
+// ----------------------------------------------------------------------------
+// Emits the boundary edges of every filled pixel (clockwise), then links them
+// into closed loops. Holes come out as separate loops and are handled by the
+// even-odd fill rule.
+const traceLoops = (mask: Uint8Array, width: number, height: number): Point[][] => {
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+  const key = (x: number, y: number) => y * (width + 1) + x;
+  const outgoing = new Map<number, Point[]>();
+
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const k = key(x1, y1);
+    const list = outgoing.get(k);
+    if (list) list.push([x2, y2]);
+    else outgoing.set(k, [[x2, y2]]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!filled(x, y)) continue;
+      if (!filled(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!filled(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!filled(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!filled(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: Point[][] = [];
+  for (const [startKey, targets] of outgoing) {
+    while (targets.length > 0) {
+      const start: Point = [startKey % (width + 1), Math.floor(startKey / (width + 1))];
+      const loop: Point[] = [start];
+      let current = targets.pop() as Point;
+
+      while (current[0] !== start[0] || current[1] !== start[1]) {
+        loop.push(current);
+        const next = outgoing.get(key(current[0], current[1]));
+        if (!next || next.length === 0) break;
+        current = next.pop() as Point;
+      }
+      if (loop.length > 2) loops.push(loop);
+    }
+  }
+  return loops;
+};
+
+const polygonArea = (points: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area / 2);
+};
+
+const perpendicularDistance = (p: Point, a: Point, b: Point) => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  return Math.abs(dy * p[0] - dx * p[1] + b[0] * a[1] - b[1] * a[0]) / length;
+};
+
+const douglasPeucker = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  let maxDist = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = perpendicularDistance(points[i], points[0], points[points.length - 1]);
+    if (d > maxDist) {
+      maxDist = d;
+      index = i;
+    }
+  }
+  if (maxDist <= tolerance) return [points[0], points[points.length - 1]];
+  const left = douglasPeucker(points.slice(0, index + 1), tolerance);
+  const right = douglasPeucker(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+const simplifyLoop = (loop: Point[], tolerance: number): Point[] => {
+  // Split the closed loop at its farthest point so DP has two fixed anchors
+  let far = 0;
+  let farDist = 0;
+  loop.forEach((p, i) => {
+    const d = Math.hypot(p[0] - loop[0][0], p[1] - loop[0][1]);
+    if (d > farDist) {
+      farDist = d;
+      far = i;
+    }
+  });
+  const first = douglasPeucker(loop.slice(0, far + 1), tolerance);
+  const second = douglasPeucker([...loop.slice(far), loop[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+// Quadratic curves through edge midpoints, using vertices as control points
+const smoothPath = (points: Point[], scale: number): string => {
+  const fmt = (v: number) => (Math.round(v * scale * 100) / 100).toString();
+  if (points.length < 3) return '';
+  const mid = (a: Point, b: Point): Point => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+
+  const start = mid(points[points.length - 1], points[0]);
+  let d = `M${fmt(start[0])} ${fmt(start[1])}`;
+  for (let i = 0; i < points.length; i++) {
+    const control = points[i];
+    const end = mid(points[i], points[(i + 1) % points.length]);
+    d += `Q${fmt(control[0])} ${fmt(control[1])} ${fmt(end[0])} ${fmt(end[1])}`;
+  }
+  return d + 'Z';
+};
+
+/**
+ * Trace a raster logo into an SVG document.
+ */
+export const vectorizeImage = async (src: string, options: VectorizeOptions = DEFAULT_VECTORIZE_OPTIONS): Promise<VectorizeResult> => {
+  const img = await loadImage(src);
+  const detail = Math.min(10, Math.max(1, options.detail));
+
+  // Higher detail = more working resolution and tighter simplification
+  const workSize = 96 + detail * 48;
+  const scale = Math.min(1, workSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const tolerance = 1.6 - detail * 0.13;
+  const minArea = Math.max(2, (11 - detail) * 1.5);
+
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+
+  const pixels: Rgb[] = [];
+  const opaque = new Uint8Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    if (data[p * 4 + 3] < 128) continue;
+    opaque[p] = 1;
+    pixels.push([data[p * 4], data[p * 4 + 1], data[p * 4 + 2]]);
+  }
+
+  const palette = quantize(pixels, Math.min(16, Math.max(2, options.colors)));
+
+  // Assign every opaque pixel to its nearest palette color
+  const labels = new Int16Array(width * height).fill(-1);
+  const counts = new Array(palette.length).fill(0);
+  for (let p = 0; p < width * height; p++) {
+    if (!opaque[p]) continue;
+    const color: Rgb = [data[p * 4], data[p * 4 + 1], data[p * 4 + 2]];
+    let best = 0;
+    let bestDist = Infinity;
+    palette.forEach((c, i) => {
+      const dist = colorDistance(color, c);
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    });
+    labels[p] = best;
+    counts[best]++;
+  }
+
+  // The background is whichever color dominates the border
+  let backgroundIndex = -1;
+  if (options.removeBackground) {
+    const borderCounts = new Array(palette.length).fill(0);
+    for (let x = 0; x < width; x++) {
+      [labels[x], labels[(height - 1) * width + x]].forEach(l => l >= 0 && borderCounts[l]++);
+    }
+    for (let y = 0; y < height; y++) {
+      [labels[y * width], labels[y * width + width - 1]].forEach(l => l >= 0 && borderCounts[l]++);
+    }
+    const maxBorder = Math.max(...borderCounts);
+    if (maxBorder > (width + height)) backgroundIndex = borderCounts.indexOf(maxBorder);
+  }
+
+  // Paint large areas first so smaller details sit on top
+  const order = palette.map((_, i) => i).filter(i => i !== backgroundIndex).sort((a, b) => counts[b] - counts[a]);
+  const outScale = 1 / scale;
+  const paths: string[] = [];
+
+  for (const colorIndex of order) {
+    const mask = new Uint8Array(width * height);
+    for (let p = 0; p < mask.length; p++) mask[p] = labels[p] === colorIndex ? 1 : 0;
+
+    const d = traceLoops(mask, width, height)
+      .filter(loop => polygonArea(loop) >= minArea)
+      .map(loop => smoothPath(simplifyLoop(loop, tolerance), outScale))
+      .filter(Boolean)
+      .join('');
+
+    if (d) {
+      const hex = toHex(palette[colorIndex]);
+      // A hairline stroke in the same color hides seams between adjacent layers
+      paths.push(`<path fill="${hex}" stroke="${hex}" stroke-width="${(0.5 * outScale).toFixed(2)}" fill-rule="evenodd" d="${d}"/>`);
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${img.naturalWidth} ${img.naturalHeight}" width="${img.naturalWidth}" height="${img.naturalHeight}">\n${paths.join('\n')}\n</svg>`;
+
+  return {
+    svg,
+    palette: order.map(i => toHex(palette[i])),
+    pathCount: paths.length
+  };
+};
@@ -1,3 +1,4 @@
+// Built-in modes. Their values double as mode ids, so they must never change.
 export enum AppMode {
   THUMBNAIL = 'YouTube Thumbnail',
   LOGO = 'Logo Design',
@@ -8,6 +9,53 @@ export enum AppMode {
   GENERAL = 'General Generation'
 }
 
+// An AppMode value for built-in modes, a generated id for custom ones
+export type ModeId = string;
+
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '3:4' | '4:3';
+
+// Post-processing and editors a mode switches on
+export type ModeTool = 'cutout' | 'text-layers' | 'vectorize' | 'icon-pack';
+
+export interface ModeDefinition {
+  id: ModeId;
+  name: string; // Full name used in prompts and chat copy, e.g. "YouTube Thumbnail"
+  label: string; // Short sidebar label
+  icon: string; // Key of MODE_ICONS
+  aspectRatio: AspectRatio; // Default when the mode is opened
+  highQuality: boolean;
+  strategy: string; // How prompt refinement should treat requests in this mode
+  fallbackPrompt: string; // Used when refinement comes back empty
+  placeholder: string; // Chat input placeholder
+  tips: string[]; // Shown on an empty chat
+  tools: ModeTool[];
+  recommendedStyles: string[]; // StylePreset ids suggested first in the style picker
+  custom?: boolean; // User-defined; editable and deletable
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  fragment: string; // How the look is described to prompt refinement
+  negative?: string; // Cues to steer away from, e.g. "blurry, watermark"
+  swatch?: string; // CSS background standing in for a thumbnail
+  thumbnail?: string; // Data URL; custom styles only
+  palette?: string[]; // Hex colors measured from a reference image
+  custom?: boolean;
+  createdAt?: number;
+}
+
+// How the text model reads the look of a reference image
+export interface StyleAnalysis {
+  name: string; // Short suggested preset name
+  medium: string;
+  palette: string;
+  lighting: string;
+  composition: string;
+  typography?: string; // Only when the image contains lettering
+  negative?: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
@@ -17,17 +65,199 @@ export interface ChatMessage {
     originalPrompt?: string;
     finalPrompt?: string;
     liked?: boolean;
+    likedIndex?: number; // Variation the like (and the learned pattern) refers to
+    disliked?: boolean;
+    dislikeReasons?: string[];
+    selectedIndex?: number; // Chosen variation when `images` holds several
+    originalImages?: string[]; // Raw model output before client-side post-processing (e.g. matting)
+    overlay?: TextOverlay; // Set when the image was flattened from the text layer editor
+    promptDraft?: string[]; // Refined prompt(s) awaiting review; the turn has not been generated yet
+    error?: MessageError; // Set on failed turns; rendered as an error card
+    baseImage?: string; // On follow-up edits: the earlier result this request modifies
+    provenance?: GenerationProvenance; // How the images were produced; Remix replays it
+    settings?: GenerationSettings; // On failed turns: what the attempt used, so Retry repeats it
+    inputsFrom?: number; // On failed turns: like `provenance.inputsFrom`
   };
 }
 
+export type GenerationErrorKind = 'quota' | 'auth' | 'safety' | 'network' | 'empty-response' | 'invalid-input' | 'unknown';
+
+export interface MessageError {
+  kind: GenerationErrorKind;
+  title: string;
+  message: string;
+  hint: string; // What the user can do about it
+  retryable: boolean;
+  finishReason?: string;
+  category?: string;
+}
+
 export interface GenerationConfig {
-  aspectRatio: '1:1' | '16:9' | '9:16' | '3:4' | '4:3';
-  style?: string;
+  aspectRatio: AspectRatio;
+  style?: string; // StylePreset id
   highQuality: boolean; // Toggles between flash-image and pro-image-preview
+  variations?: number; // Images generated per prompt (1-4)
+  promptReview?: PromptReviewMode;
+}
+
+// The per-turn settings Remix can replay or change one at a time
+export interface GenerationSettings {
+  aspectRatio: AspectRatio;
+  highQuality: boolean;
+  variations: number;
+  style?: string; // StylePreset id
+  brandKitId?: string; // Brand kit applied, if any
+}
+
+export interface GenerationProvenance extends GenerationSettings {
+  operation: 'generate' | 'inpaint';
+  provider: string; // ImageProvider id
+  model?: string; // Model that actually returned the image
+  fallbackFrom?: string; // Requested model that failed over to `model`
+  retries: number; // Rate-limit / transient retries across all variations
+  styleName?: string;
+  brandKit?: string; // Name of the brand kit applied
+  inputsFrom?: number; // Timestamp of the user message holding the reference images; messages have no other id
+  latencyMs: number; // From the first image request to the finished result
+  createdAt: number;
+}
+
+// How an exported image was made; embedded in the file and restored when it's dropped back in
+export interface ImageRecipe {
+  app: 'pixfrog';
+  version: 1;
+  mode: ModeId;
+  modeName: string;
+  originalPrompt?: string;
+  finalPrompt?: string;
+  settings?: GenerationSettings;
+  provider?: string;
+  model?: string;
+  styleName?: string;
+  createdAt?: number;
+}
+
+// 'edit' pauses on the refined prompt; 'choose' also offers alternative refinements
+export type PromptReviewMode = 'off' | 'edit' | 'choose';
+
+export interface TextLayer {
+  id: string;
+  text: string;
+  x: number; // Center position as a fraction of image width (0-1)
+  y: number; // Center position as a fraction of image height (0-1)
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number; // Percent of image height
+  fill: string;
+  gradient?: string; // Second color for a top-to-bottom gradient fill
+  strokeColor: string;
+  strokeWidth: number; // Percent of font size, 0 disables the stroke
+  shadow: boolean;
+  shadowColor: string;
+  rotation: number; // Degrees
 }
 
+export interface TextOverlay {
+  baseImage: string;
+  layers: TextLayer[];
+}
+
+/**
+ * Backend that turns prompts into images. Gemini is one implementation;
+ * others (e.g. the offline mock) let the UI run without a live API key.
+ */
+export interface ImageProvider {
+  id: string;
+  label: string;
+  refinePrompt: (userInput: string, mode: ModeId, context?: RefineContext, options?: RequestOptions) => Promise<string>;
+  // Distinct refinements of the same request, for the user to pick from
+  refinePromptAlternatives: (userInput: string, mode: ModeId, count: number, context?: RefineContext, options?: RequestOptions) => Promise<string[]>;
+  // `variant` is the index within a batch of variations; deterministic providers use it to vary output
+  generateImage: (prompt: string, aspectRatio?: string, highQuality?: boolean, variant?: number, options?: RequestOptions) => Promise<string | null>;
+  generateWithImages: (base64Images: string[], prompt: string, aspectRatio?: string, highQuality?: boolean, variant?: number, options?: RequestOptions) => Promise<string | null>;
+  // Describes the visual style of a reference image so it can be saved as a preset
+  analyzeStyle: (base64Image: string, options?: RequestOptions) => Promise<StyleAnalysis>;
+}
+
+// Everything besides the raw request that shapes prompt refinement
+export interface RefineContext {
+  hasImages?: boolean;
+  history?: string; // Summary of earlier turns in this chat
+  isEdit?: boolean; // The request modifies the previous result, which is attached as the base image
+  brandKit?: BrandKit; // Active brand; its logo (if any) is attached after the other images
+  style?: StylePreset;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // A cancelled job rejects with an AbortError
+  onStatus?: (status: QueueStatus) => void; // Progress through the rate-limit queue
+  onModel?: (model: string, fallbackFrom?: string) => void; // Which model answered, and the one it replaced on fallback
+}
+
+// Where a request is in the rate-limit queue; `until` is when the current wait should end (epoch ms)
+export type QueueStatus =
+  | { state: 'queued'; position: number; until: number }
+  | { state: 'retrying'; attempt: number; maxAttempts: number; until: number }
+  | { state: 'running' };
+
+// One in-flight generation; at most one runs per mode
+export interface GenerationJob {
+  id: string;
+  mode: ModeId;
+  startedAt: number;
+  queue?: QueueStatus; // Latest report from the rate limiter
+}
+
+// Sidebar badge for a mode: still generating, or finished while you were elsewhere
+export type ModeStatus = 'running' | 'done' | 'error';
+
 export interface GeneratedImage {
   url: string;
   prompt: string;
   timestamp: number;
+  id?: string; // Stable key in the gallery
+  mode?: ModeId;
+  originalPrompt?: string; // What the user typed, when `prompt` is the refined one
+  liked?: boolean;
+  transparent?: boolean; // Cutout with an alpha channel
+  sessionId?: string; // Archived session it came from; unset for the live chat
+  recipe?: ImageRecipe; // Embedded when the image is downloaded
+}
+
+export interface LearnedPattern {
+  id: string;
+  mode: ModeId;
+  userInput: string;
+  refinedPrompt: string;
+  timestamp: number;
+  pinned?: boolean; // Always recalled first and never evicted
+  sentiment?: 'like' | 'dislike'; // Missing on older entries, which were all likes
+  reasons?: string[]; // Why a disliked result missed the mark
+}
+
+export interface ArchivedSession {
+  id: string;
+  mode: ModeId;
+  messages: ChatMessage[];
+  archivedAt: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  histories: Record<string, ChatMessage[]>; // Active conversation per mode
+  archives: ArchivedSession[]; // Conversations set aside via "New Chat"
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  palette: string[]; // Hex colors, primary first
+  fonts: string[]; // Font families, headline font first
+  toneWords: string[]; // e.g. "playful", "premium"
+  logo?: string; // Data URL, sent as a reference image
+  createdAt: number;
+  updatedAt: number;
 }